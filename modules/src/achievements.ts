@@ -0,0 +1,229 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// achievements.ts - Achievement engine
+// Achievements are plain data (ACHIEVEMENTS in types.ts); each kind has an evaluator here.
+// Everything is evaluated once per completed game, after the standings have been updated,
+// so nothing in handleMove needs to know about achievements.
+
+// What an evaluator gets to look at
+interface AchievementContext {
+  state: GameState;              // The game that just finished
+  userId: string;
+  won: boolean;
+  standings: PlayerStandings | null;  // Overall standings including this game (null if they couldn't be updated)
+}
+
+// One evaluator per achievement kind
+const ACHIEVEMENT_EVALUATORS: { [kind: string]: (definition: AchievementDefinition, context: AchievementContext) => boolean } = {
+  wins: function (definition, context) {
+    return !!context.standings && context.standings.wins >= definition.threshold;
+  },
+
+  win_streak: function (definition, context) {
+    return !!context.standings && context.standings.winStreak >= definition.threshold;
+  },
+
+  games_played: function (definition, context) {
+    var standings = context.standings;
+    return !!standings && standings.wins + standings.losses + standings.draws >= definition.threshold;
+  },
+
+  clean_win: function (definition, context) {
+    if (!context.won || context.state.endReason !== "line") {
+      return false;
+    }
+    var opponentSymbol = context.state.players[context.userId].symbol === "X" ? "O" : "X";
+    return !hasAdjacentPair(context.state, opponentSymbol);
+  },
+
+  time_left: function (definition, context) {
+    var moves = context.state.moves;
+    var lastMove = moves[moves.length - 1];
+    return context.won && !!context.state.timeControl && !!lastMove && lastMove.userId === context.userId &&
+      typeof lastMove.remainingMs === "number" && lastMove.remainingMs > definition.threshold;
+  },
+};
+
+// Unlock new achievements for both players of a finished game and notify them
+// Called from updateLeaderboard for non-bot games - failures are logged, never thrown
+function evaluateAchievements(
+  nk: nkruntime.Nakama,
+  state: GameState,
+  standings: { [userId: string]: PlayerStandings },
+  logger: nkruntime.Logger
+): void {
+  var playerIds = Object.keys(state.players);
+  for (var p = 0; p < playerIds.length; p++) {
+    var userId = playerIds[p];
+    try {
+      var context: AchievementContext = {
+        state: state,
+        userId: userId,
+        won: state.winner === userId,
+        standings: standings[userId] || null,
+      };
+      var unlocked = unlockAchievements(nk, context, logger);
+
+      // Only once they're stored - a failed write mustn't announce an unlock the next game announces again
+      for (var n = 0; n < unlocked.length; n++) {
+        notifyAchievementUnlocked(nk, userId, unlocked[n].definition, unlocked[n].unlockedAt, logger);
+      }
+    } catch (err) {
+      logger.error("[ACHIEVEMENT] Error evaluating achievements for " + userId + ": " + String(err));
+      // Don't throw - achievements are nice-to-have, don't break the game
+    }
+  }
+}
+
+// Evaluate and store one player's new achievements, returning the ones that were written
+// Writes are versioned, so unlocks from two games finishing at once are both kept (the loser retries)
+function unlockAchievements(
+  nk: nkruntime.Nakama,
+  context: AchievementContext,
+  logger: nkruntime.Logger
+): { definition: AchievementDefinition; unlockedAt: number }[] {
+  for (var attempt = 1; ; attempt++) {
+    var objects = nk.storageRead([{ collection: ACHIEVEMENTS_COLLECTION, key: ACHIEVEMENTS_KEY, userId: context.userId }]);
+    var object = objects && objects.length > 0 ? objects[0] : null;
+    var value = object ? object.value : null;
+    var unlocked = (object ? (typeof value === "string" ? JSON.parse(value) : value) : {}) as { [achievementId: string]: number };
+
+    var now = Date.now();
+    var newlyUnlocked: { definition: AchievementDefinition; unlockedAt: number }[] = [];
+    for (var a = 0; a < ACHIEVEMENTS.length; a++) {
+      var definition = ACHIEVEMENTS[a];
+      var evaluator = ACHIEVEMENT_EVALUATORS[definition.kind];
+      if (unlocked[definition.id] || !evaluator || !evaluator(definition, context)) {
+        continue;
+      }
+      unlocked[definition.id] = now;
+      newlyUnlocked.push({ definition: definition, unlockedAt: now });
+    }
+
+    if (newlyUnlocked.length === 0) {
+      return newlyUnlocked;
+    }
+
+    try {
+      nk.storageWrite([{
+        collection: ACHIEVEMENTS_COLLECTION,
+        key: ACHIEVEMENTS_KEY,
+        userId: context.userId,
+        value: unlocked as any,
+        version: object ? object.version : "*", // "*" = only if nobody created it meanwhile
+        permissionRead: 2, // Public read - achievements show on profiles
+        permissionWrite: 0, // Only server can write
+      }]);
+    } catch (err) {
+      if (attempt >= ACHIEVEMENTS_WRITE_ATTEMPTS) {
+        throw err;
+      }
+      logger.info("[ACHIEVEMENT] Achievements of " + context.userId + " changed while updating, retrying");
+      continue;
+    }
+    return newlyUnlocked;
+  }
+}
+
+// Read unlocked achievement maps, keyed by user ID
+function readUnlockedAchievements(
+  nk: nkruntime.Nakama,
+  reads: nkruntime.StorageReadRequest[]
+): { [userId: string]: { [achievementId: string]: number } } {
+  var result: { [userId: string]: { [achievementId: string]: number } } = {};
+  var objects = nk.storageRead(reads) || [];
+  for (var i = 0; i < objects.length; i++) {
+    var value = objects[i].value;
+    result[objects[i].userId] = (typeof value === "string" ? JSON.parse(value) : value) as { [achievementId: string]: number };
+  }
+  return result;
+}
+
+// Tell the player about a new achievement (persistent, so they see it even if they were offline)
+function notifyAchievementUnlocked(
+  nk: nkruntime.Nakama,
+  userId: string,
+  definition: AchievementDefinition,
+  unlockedAt: number,
+  logger: nkruntime.Logger
+): void {
+  try {
+    nk.notificationSend(
+      userId,
+      "Achievement unlocked: " + definition.name,
+      { id: definition.id, name: definition.name, description: definition.description, unlockedAt: unlockedAt },
+      ACHIEVEMENT_NOTIFICATION_CODE,
+      null,
+      true
+    );
+    logger.info("[ACHIEVEMENT] " + userId + " unlocked " + definition.id);
+  } catch (err) {
+    logger.warn("[ACHIEVEMENT] Failed to notify " + userId + " about " + definition.id + ": " + String(err));
+  }
+}
+
+// Does this symbol have two marks next to each other anywhere (row, column or diagonal)?
+// In ultimate only cells of the same local board count as neighbours
+function hasAdjacentPair(state: GameState, symbol: string): boolean {
+  var board = state.board;
+  var width = state.ultimate ? 3 : state.boardWidth;
+  var height = state.ultimate ? 3 : state.boardHeight;
+  var boardSize = width * height;
+
+  // Right, down, down-right, down-left - every pair is checked once
+  var directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+  for (var i = 0; i < board.length; i++) {
+    if (board[i] !== symbol) {
+      continue;
+    }
+    var offset = i - (i % boardSize);
+    var cell = i % boardSize;
+    var row = Math.floor(cell / width);
+    var col = cell % width;
+
+    for (var d = 0; d < directions.length; d++) {
+      var r = row + directions[d][0];
+      var c = col + directions[d][1];
+      if (r >= 0 && r < height && c >= 0 && c < width && board[offset + r * width + c] === symbol) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+// RPC function to list every achievement with the player's unlock status
+// Payload: { userId?: string } - defaults to the caller
+let rpcGetAchievements: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[ACHIEVEMENT] RPC get_achievements called by user: " + ctx.userId);
+
+  var data = JSON.parse(payload || "{}");
+  var userId: string = data.userId || ctx.userId;
+  if (!userId) {
+    throw new Error("Missing userId");
+  }
+
+  var unlocked = readUnlockedAchievements(nk, [{ collection: ACHIEVEMENTS_COLLECTION, key: ACHIEVEMENTS_KEY, userId: userId }])[userId] || {};
+
+  var achievements = [];
+  for (var i = 0; i < ACHIEVEMENTS.length; i++) {
+    var definition = ACHIEVEMENTS[i];
+    achievements.push({
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      unlocked: !!unlocked[definition.id],
+      unlockedAt: unlocked[definition.id] || null,
+    });
+  }
+
+  return JSON.stringify({ userId: userId, achievements: achievements });
+};
@@ -0,0 +1,399 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// admin.ts - Operator tools
+// Admin RPCs are open to the users listed in ADMIN_USER_IDS (runtime env) and to server-to-server
+// calls made with the HTTP key. Anything that touches a live game is sent to the match with
+// nk.matchSignal, so it runs inside the match's own loop like any other state change.
+
+// Is the caller an operator? (server-to-server calls have no user)
+function isAdmin(ctx: nkruntime.Context): boolean {
+  if (!ctx.userId) {
+    return true;
+  }
+
+  var env = ctx.env || {};
+  var adminIds = (env["ADMIN_USER_IDS"] || "").split(",");
+  for (var i = 0; i < adminIds.length; i++) {
+    if (adminIds[i].replace(/^\s+|\s+$/g, "") === ctx.userId) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Throw for anyone who isn't an operator
+function requireAdmin(ctx: nkruntime.Context, logger: nkruntime.Logger, rpcName: string): void {
+  if (!isAdmin(ctx)) {
+    logger.warn("[ADMIN] Refusing " + rpcName + " for non-admin user " + ctx.userId);
+    throw new Error("Admin only");
+  }
+  logger.info("[ADMIN] " + rpcName + " called by " + (ctx.userId || "server"));
+}
+
+// RPC function to list live matches with their full state
+// Payload: { status?: "waiting" | "active" | "completed", limit?: number }
+let rpcAdminListMatches: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  requireAdmin(ctx, logger, "admin_list_matches");
+
+  var data = JSON.parse(payload || "{}");
+  var limit = Math.min(Math.max(Number(data.limit) || ADMIN_MATCH_LIST_LIMIT, 1), ADMIN_MATCH_LIST_LIMIT);
+  var query = data.status ? "+label.status:" + String(data.status).replace(/[^a-z]/g, "") : "";
+
+  var matches = nk.matchList(limit, true, "", null, null, query);
+  var result = [];
+  for (var i = 0; i < matches.length; i++) {
+    var state: any = null;
+    try {
+      state = JSON.parse(nk.matchSignal(matches[i].matchId, JSON.stringify({ type: "admin_inspect" })) || "null");
+    } catch (err) {
+      // Match ended between listing and signalling
+      continue;
+    }
+    result.push({
+      matchId: matches[i].matchId,
+      size: matches[i].size,
+      label: JSON.parse(matches[i].label || "{}"),
+      state: state,
+    });
+  }
+
+  return JSON.stringify({ matches: result });
+};
+
+// RPC function to end a game in progress
+// Payload: { matchId, outcome: "draw" | "void" | "award", winnerId? (award) }
+// draw/award count like a normal result; void ends the game without counting it anywhere
+let rpcAdminEndMatch: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  requireAdmin(ctx, logger, "admin_end_match");
+
+  var data = JSON.parse(payload || "{}");
+  if (!data.matchId) {
+    throw new Error("Missing matchId");
+  }
+  if (ADMIN_OUTCOMES.indexOf(data.outcome) === -1) {
+    throw new Error("Invalid outcome. Must be one of " + ADMIN_OUTCOMES.join(", "));
+  }
+  if (data.outcome === "award" && !data.winnerId) {
+    throw new Error("Missing winnerId");
+  }
+
+  var reply = sendAdminSignal(nk, String(data.matchId), {
+    type: "admin_end",
+    outcome: data.outcome,
+    winnerId: data.winnerId ? String(data.winnerId) : null,
+  });
+
+  logger.info("[ADMIN] Match " + data.matchId + " ended by " + (ctx.userId || "server") + " (" + data.outcome + ")");
+  return JSON.stringify({ matchId: data.matchId, outcome: data.outcome, winner: reply.winner });
+};
+
+// RPC function to show a maintenance notice in every live match
+// Payload: { message }
+let rpcAdminBroadcast: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  requireAdmin(ctx, logger, "admin_broadcast");
+
+  var data = JSON.parse(payload || "{}");
+  var message = String(data.message || "").replace(/^\s+|\s+$/g, "");
+  if (!message) {
+    throw new Error("Missing message");
+  }
+  if (message.length > ADMIN_NOTICE_MAX_LENGTH) {
+    throw new Error("Message is too long (max " + ADMIN_NOTICE_MAX_LENGTH + " characters)");
+  }
+
+  var matches = nk.matchList(ADMIN_MATCH_LIST_LIMIT, true, "", null, null, "");
+  var delivered = 0;
+  for (var i = 0; i < matches.length; i++) {
+    try {
+      sendAdminSignal(nk, matches[i].matchId, { type: "admin_notice", message: message });
+      delivered++;
+    } catch (err) {
+      logger.warn("[ADMIN] Notice not delivered to " + matches[i].matchId + ": " + String(err));
+    }
+  }
+
+  logger.info("[ADMIN] Maintenance notice delivered to " + delivered + "/" + matches.length + " matches");
+  return JSON.stringify({ delivered: delivered, matches: matches.length });
+};
+
+// RPC function to take a completed game back off the leaderboards
+// Payload: { matchId, gameNumber } (both are in the players' match history)
+let rpcAdminVoidResult: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  requireAdmin(ctx, logger, "admin_void_result");
+
+  var data = JSON.parse(payload || "{}");
+  var key = String(data.matchId || "") + ":" + Number(data.gameNumber);
+  var objects = nk.storageRead([{ collection: MATCH_RESULTS_COLLECTION, key: key, userId: SYSTEM_USER_ID }]);
+  if (!objects || objects.length === 0) {
+    throw new Error("Result not found (only games that counted on the leaderboards can be voided)");
+  }
+
+  var value = objects[0].value;
+  var result = (typeof value === "string" ? JSON.parse(value) : value) as MatchResultRecord;
+  if (result.voidedAt !== null) {
+    throw new Error("Result was already voided");
+  }
+
+  var now = Date.now();
+  if (result.voidStartedAt && now - result.voidStartedAt < ADMIN_VOID_LOCK_MS) {
+    throw new Error("Result is being voided, try again in " + Math.ceil((result.voidStartedAt + ADMIN_VOID_LOCK_MS - now) / 1000) + "s");
+  }
+
+  // Lock it against the version we read - of two admins voiding at once only one gets past this write,
+  // so nothing is reverted twice. Each revert is recorded as it's done, so after a failure a second
+  // call only does what's left
+  result.voidSteps = result.voidSteps || [];
+  result.voidStartedAt = now;
+  result.voidedBy = ctx.userId || "";
+  var version = writeMatchResult(nk, result, objects[0].version);
+
+  var kept: VoidKeptEffect[];
+  try {
+    kept = voidMatchResult(nk, result, function (step: string): void {
+      result.voidSteps.push(step);
+      version = writeMatchResult(nk, result, version);
+    }, logger);
+  } catch (err) {
+    // Unlock right away so the admin can retry (what went through is in voidSteps)
+    result.voidStartedAt = null;
+    try {
+      writeMatchResult(nk, result, version);
+    } catch (unlockErr) {
+      logger.error("[ADMIN] Failed to unlock result " + key + ": " + String(unlockErr));
+    }
+    logger.error("[ADMIN] Voiding " + key + " failed after " + result.voidSteps.length + " steps: " + String(err));
+    throw new Error("Voiding failed partway, call admin_void_result again to finish: " + String(err));
+  }
+
+  result.voidedAt = Date.now();
+  result.voidStartedAt = null;
+  writeMatchResult(nk, result, version);
+
+  logger.info("[ADMIN] Result " + key + " voided by " + (ctx.userId || "server") + (kept.length > 0 ? ", kept: " + kept.join(", ") : ""));
+  return JSON.stringify({ result: result, kept: kept });
+};
+
+// Admin signals sent by the RPCs above (called from matchSignal)
+// Returns the JSON reply for the caller, or null if the signal isn't an admin signal
+function handleAdminSignal(
+  state: GameState,
+  signal: { [field: string]: any },
+  dispatcher: nkruntime.MatchDispatcher,
+  nk: nkruntime.Nakama,
+  logger: nkruntime.Logger
+): string | null {
+  switch (signal.type) {
+    case "admin_inspect":
+      return serializeState(state);
+
+    case "admin_notice":
+      dispatcher.broadcastMessage(OpCode.SERVER_NOTICE, JSON.stringify({ message: signal.message, sentAt: Date.now() }));
+      return JSON.stringify({ ok: true });
+
+    case "admin_end":
+      return endMatchByAdmin(state, signal.outcome, signal.winnerId, dispatcher, nk, logger);
+
+    default:
+      return null;
+  }
+}
+
+// End the game in progress with the outcome an operator picked
+function endMatchByAdmin(
+  state: GameState,
+  outcome: AdminOutcome,
+  winnerId: string | null,
+  dispatcher: nkruntime.MatchDispatcher,
+  nk: nkruntime.Nakama,
+  logger: nkruntime.Logger
+): string {
+  if (state.status !== "active") {
+    return JSON.stringify({ error: "No game in progress" });
+  }
+  if (outcome === "award" && (!winnerId || !state.players[winnerId])) {
+    return JSON.stringify({ error: "winnerId is not a player in this match" });
+  }
+  // The bracket needs a result for every pairing
+  if (outcome === "void" && state.tournament) {
+    return JSON.stringify({ error: "Tournament games can't be voided, use draw or award" });
+  }
+
+  state.status = "completed";
+  state.endReason = "admin";
+  state.clockPausedAt = null;
+  state.winner = outcome === "award" ? winnerId : outcome === "draw" ? "draw" : null;
+  logger.info("[ADMIN] Game ended by an operator: " + outcome + (state.winner ? " (" + state.winner + ")" : ""));
+
+  // void has no winner, so handleGameCompleted only adds it to the series and the match history
+  handleGameCompleted(nk, state, logger);
+
+  broadcastState(dispatcher, state);
+  return JSON.stringify({ ok: true, winner: state.winner });
+}
+
+// Signal a match and parse its reply (throws when the match is gone or refused the command)
+function sendAdminSignal(nk: nkruntime.Nakama, matchId: string, signal: { [field: string]: any }): { [field: string]: any } {
+  var reply = JSON.parse(nk.matchSignal(matchId, JSON.stringify(signal)) || "{}");
+  if (reply.error) {
+    throw new Error(reply.error);
+  }
+  return reply;
+}
+
+// Remember what a counted game did to the leaderboards (called from updateLeaderboard)
+// ratingChanges is what updateRatings returned, so a void can take the points back
+function recordMatchResult(
+  nk: nkruntime.Nakama,
+  state: GameState,
+  ratingChanges: { [userId: string]: number } | null,
+  logger: nkruntime.Logger
+): void {
+  try {
+    var players: { userId: string; username: string; symbol: "X" | "O" }[] = [];
+    for (var userId in state.players) {
+      players.push({ userId: userId, username: state.players[userId].username, symbol: state.players[userId].symbol });
+    }
+
+    var now = Date.now();
+    writeMatchResult(nk, {
+      matchId: state.matchId,
+      gameNumber: state.series.gamesPlayed,
+      mode: state.mode,
+      players: players,
+      winner: state.winner as string,
+      endReason: state.endReason || "forfeit",
+      durationMs: now - (state.gameStartedAt || state.createdAt),
+      recordedAt: now,
+      ratingChanges: ratingChanges,
+      voidedAt: null,
+      voidedBy: null,
+      voidStartedAt: null,
+      voidSteps: [],
+    });
+  } catch (err) {
+    logger.error("[ADMIN] Failed to record result of " + state.matchId + ": " + String(err));
+  }
+}
+
+// version is optional - pass the one read to fail on a concurrent write
+// Returns the new version
+function writeMatchResult(nk: nkruntime.Nakama, result: MatchResultRecord, version?: string): string {
+  var acks = nk.storageWrite([{
+    collection: MATCH_RESULTS_COLLECTION,
+    key: result.matchId + ":" + result.gameNumber,
+    userId: SYSTEM_USER_ID,
+    value: result as any,
+    version: version,
+    permissionRead: 0, // Server only
+    permissionWrite: 0,
+  }]);
+  return acks[0].version;
+}
+
+// Undo a game's leaderboard effects: global wins/losses, standings, ratings and (same season only) the season board
+// Every revert is one step, skipped when it's already in result.voidSteps and passed to done once it went through
+// Returns the effects that stay (streaks and achievements were built on by every game since)
+function voidMatchResult(
+  nk: nkruntime.Nakama,
+  result: MatchResultRecord,
+  done: (step: string) => void,
+  logger: nkruntime.Logger
+): VoidKeptEffect[] {
+  var kept: VoidKeptEffect[] = ["achievements", "streaks"];
+  var usernames: { [userId: string]: string } = {};
+  for (var i = 0; i < result.players.length; i++) {
+    usernames[result.players[i].userId] = result.players[i].username;
+  }
+  var pending = function (step: string): boolean {
+    return result.voidSteps.indexOf(step) === -1;
+  };
+
+  // All-time boards (incremental - write the negative)
+  if (result.winner !== "draw" && pending("all_time")) {
+    for (var p = 0; p < result.players.length; p++) {
+      var userId = result.players[p].userId;
+      nk.leaderboardRecordWrite(userId === result.winner ? "global_wins" : "global_losses", userId, usernames[userId], -1, 0);
+    }
+    done("all_time");
+  }
+
+  // Standings, overall and for the mode (versioned, like the writes that counted the game)
+  var scopes: StandingsScope[] = ["all", result.mode];
+  for (var r = 0; r < result.players.length; r++) {
+    var playerId = result.players[r].userId;
+    if (!pending("standings:" + playerId)) {
+      continue;
+    }
+    var updated = updatePlayerStandings(nk, playerId, usernames[playerId], scopes, false, function (standings: PlayerStandings): void {
+      revertStandingsResult(standings, result, playerId);
+    }, logger);
+
+    // writeStandingsRecords leaves the win rate board alone below the threshold - take the player off it
+    for (var scope in updated) {
+      var standings = updated[scope];
+      if (standings.wins + standings.losses + standings.draws >= STANDINGS_MIN_GAMES_FOR_WIN_RATE) {
+        continue;
+      }
+      try {
+        nk.leaderboardRecordDelete(getStandingsLeaderboardId(scope as StandingsScope, "win_rate"), playerId);
+      } catch (err) {
+        logger.error("[ADMIN] Failed to remove " + playerId + " from the " + scope + " win rate board: " + String(err));
+      }
+    }
+    done("standings:" + playerId);
+  }
+
+  // Ratings - results recorded before rating changes were kept can't be taken back
+  var ratingChanges = result.ratingChanges || null;
+  if (ratingChanges) {
+    for (var c = 0; c < result.players.length; c++) {
+      var ratedId = result.players[c].userId;
+      if (ratingChanges[ratedId] === undefined || !pending("rating:" + ratedId)) {
+        continue;
+      }
+      revertRatingChange(nk, ratedId, usernames[ratedId], result.mode, ratingChanges[ratedId], logger);
+      done("rating:" + ratedId);
+    }
+  } else {
+    kept.push("rating");
+  }
+
+  // Season board - only while the game's season is still running
+  var seasons = nk.leaderboardsGetId([SEASON_LEADERBOARD_ID]);
+  var seasonStart = seasons && seasons.length > 0 ? (seasons[0].prevReset || 0) * 1000 : 0;
+  if (result.recordedAt < seasonStart) {
+    kept.push("season");
+  } else if (pending("season")) {
+    for (var q = 0; q < result.players.length; q++) {
+      var seasonPlayerId = result.players[q].userId;
+      var wins = result.winner === seasonPlayerId ? -1 : 0;
+      var losses = result.winner !== "draw" && result.winner !== seasonPlayerId ? 1 : 0;
+      nk.leaderboardRecordWrite(SEASON_LEADERBOARD_ID, seasonPlayerId, usernames[seasonPlayerId], wins, losses);
+    }
+    done("season");
+  }
+
+  logger.info("[ADMIN] Reverted leaderboard effects of " + result.matchId + ":" + result.gameNumber);
+  return kept;
+}
@@ -0,0 +1,285 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+/// <reference path="admin.ts" />
+
+// anti_abuse.ts - Abuse signals and rate limits
+// Every counted game is checked before it reaches the leaderboards: the same winner beating the
+// same opponent over and over (win trading), forfeits before the game was really played (leave
+// farming) and repeated losses on time to the same opponent. Flagged results aren't counted
+// anywhere and go into a review queue; an admin confirms them or dismisses the flag, which counts
+// the result after all. The match RPCs and in-match messages are rate limited per user.
+
+// Check a finished game for abuse signals (called from updateLeaderboard for non-bot games)
+// Returns the flags it raised - an empty list means the result counts as usual
+function detectAbuse(nk: nkruntime.Nakama, state: GameState, logger: nkruntime.Logger): AbuseFlag[] {
+  // Tournament pairings are made by the server, and admin outcomes were decided by an operator
+  if (state.tournament || state.endReason === "admin" || !state.winner) {
+    return [];
+  }
+
+  try {
+    var playerIds = Object.keys(state.players);
+    if (playerIds.length !== 2) {
+      return [];
+    }
+
+    var now = Date.now();
+    var flags: AbuseFlag[] = [];
+    var endReason: GameEndReason = state.endReason || "forfeit";
+
+    // Leave farming: one side quit before the game got going
+    var durationMs = now - (state.gameStartedAt || state.createdAt);
+    if (endReason === "forfeit" && durationMs < ABUSE_QUICK_FORFEIT_MS && state.moves.length < ABUSE_QUICK_FORFEIT_MOVES) {
+      flags.push("quick_forfeit");
+    }
+
+    // Pairing history, this game included (flagged games too, so a farmer stays flagged)
+    var pairing = addAbusePairingResult(nk, playerIds, { at: now, winner: state.winner, endReason: endReason }, logger);
+
+    if (state.winner !== "draw") {
+      var wins = 0;
+      var timeouts = 0;
+      for (var i = 0; i < pairing.results.length; i++) {
+        var result = pairing.results[i];
+        if (result.winner !== state.winner) {
+          continue;
+        }
+        wins++;
+        if (result.endReason === "timeout") {
+          timeouts++;
+        }
+      }
+
+      if (wins >= ABUSE_PAIR_WIN_LIMIT) {
+        flags.push("repeated_pairing");
+      }
+      if (endReason === "timeout" && timeouts >= ABUSE_PAIR_TIMEOUT_LIMIT) {
+        flags.push("timeout_pattern");
+      }
+    }
+
+    if (flags.length > 0) {
+      logger.warn("[ABUSE] Result of " + state.matchId + " flagged: " + flags.join(", "));
+    }
+    return flags;
+  } catch (err) {
+    logger.error("[ABUSE] Error checking result of " + state.matchId + ": " + String(err));
+    // Don't hold a result back because the check itself failed
+    return [];
+  }
+}
+
+// Put a flagged result in the review queue instead of counting it
+function queueAbuseReview(nk: nkruntime.Nakama, state: GameState, flags: AbuseFlag[], logger: nkruntime.Logger): void {
+  try {
+    var players: { userId: string; username: string }[] = [];
+    for (var userId in state.players) {
+      players.push({ userId: userId, username: state.players[userId].username });
+    }
+
+    var now = Date.now();
+    var review: AbuseReview = {
+      id: state.matchId + ":" + state.series.gamesPlayed,
+      matchId: state.matchId,
+      gameNumber: state.series.gamesPlayed,
+      mode: state.mode,
+      players: players,
+      winner: state.winner as string,
+      endReason: state.endReason || "forfeit",
+      durationMs: now - (state.gameStartedAt || state.createdAt),
+      moves: state.moves.length,
+      flags: flags,
+      status: "pending",
+      createdAt: now,
+      resolvedAt: null,
+      resolvedBy: null,
+      // Copy of the finished game without the server-only keys (what countGameResult needs later)
+      state: JSON.parse(serializeState(state)),
+    };
+    writeAbuseReview(nk, review);
+
+    logger.info("[ABUSE] Result " + review.id + " queued for review");
+  } catch (err) {
+    logger.error("[ABUSE] Failed to queue result of " + state.matchId + " for review: " + String(err));
+  }
+}
+
+// RPC function to page through the review queue
+// Payload: { status?: "pending" | "confirmed" | "dismissed" (default "pending"), limit?, cursor? }
+let rpcAdminListReviews: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  requireAdmin(ctx, logger, "admin_list_reviews");
+
+  var data = JSON.parse(payload || "{}");
+  var status: AbuseReviewStatus = data.status || "pending";
+  var limit = Math.min(Math.max(Number(data.limit) || 20, 1), 100);
+
+  // Storage can't filter on the value - a page may hold fewer matches than the limit
+  var result = nk.storageList(SYSTEM_USER_ID, ABUSE_REVIEWS_COLLECTION, limit, data.cursor || "");
+  var objects = (result && result.objects) || [];
+  var reviews: AbuseReview[] = [];
+  for (var i = 0; i < objects.length; i++) {
+    var value = objects[i].value;
+    var review = (typeof value === "string" ? JSON.parse(value) : value) as AbuseReview;
+    if (review.status === status) {
+      reviews.push(review);
+    }
+  }
+
+  return JSON.stringify({ reviews: reviews, nextCursor: (result && result.cursor) || null });
+};
+
+// RPC function to resolve a flagged result
+// Payload: { reviewId, action: "confirm" (stays uncounted) | "dismiss" (count it now) }
+let rpcAdminResolveReview: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  requireAdmin(ctx, logger, "admin_resolve_review");
+
+  var data = JSON.parse(payload || "{}");
+  if (data.action !== "confirm" && data.action !== "dismiss") {
+    throw new Error("Invalid action. Must be confirm or dismiss");
+  }
+
+  var objects = nk.storageRead([{ collection: ABUSE_REVIEWS_COLLECTION, key: String(data.reviewId || ""), userId: SYSTEM_USER_ID }]);
+  if (!objects || objects.length === 0) {
+    throw new Error("Review not found");
+  }
+  var value = objects[0].value;
+  var review = (typeof value === "string" ? JSON.parse(value) : value) as AbuseReview;
+  if (review.status !== "pending") {
+    throw new Error("Review was already " + review.status);
+  }
+
+  // Resolve it against the version we read first - of two admins resolving at once only one gets
+  // past this write, so a dismissed result is only counted once
+  review.status = data.action === "dismiss" ? "dismissed" : "confirmed";
+  review.resolvedAt = Date.now();
+  review.resolvedBy = ctx.userId || "";
+  writeAbuseReview(nk, review, objects[0].version);
+
+  // A false alarm counts like any other game (in the season that's running now)
+  if (review.status === "dismissed") {
+    countGameResult(nk, review.state, logger);
+  }
+
+  logger.info("[ABUSE] Review " + review.id + " " + review.status + " by " + (ctx.userId || "server"));
+  return JSON.stringify({ review: review });
+};
+
+// Count a call against the caller's limit for this RPC (throws once they're over it)
+function checkRpcRateLimit(ctx: nkruntime.Context, nk: nkruntime.Nakama, rpcName: string, logger: nkruntime.Logger): void {
+  var limit = RPC_RATE_LIMITS[rpcName];
+  if (!ctx.userId || !limit) {
+    return;
+  }
+
+  var now = Date.now();
+  var window: RateLimitWindow | null = null;
+  var version = "*";
+  var objects = nk.storageRead([{ collection: RPC_RATE_LIMIT_COLLECTION, key: rpcName, userId: ctx.userId }]);
+  if (objects && objects.length > 0) {
+    var value = objects[0].value;
+    window = (typeof value === "string" ? JSON.parse(value) : value) as RateLimitWindow;
+    version = objects[0].version;
+  }
+  if (!window || now - window.windowStart >= limit.windowMs) {
+    window = { windowStart: now, count: 0 };
+  }
+
+  if (window.count >= limit.max) {
+    var retryIn = Math.ceil((window.windowStart + limit.windowMs - now) / 1000);
+    logger.warn("[ABUSE] " + ctx.userId + " is over the " + rpcName + " limit");
+    throw new Error("Too many requests, try again in " + retryIn + "s");
+  }
+
+  window.count++;
+  try {
+    nk.storageWrite([{
+      collection: RPC_RATE_LIMIT_COLLECTION,
+      key: rpcName,
+      userId: ctx.userId,
+      value: window as any,
+      version: version,
+      permissionRead: 0, // Server only
+      permissionWrite: 0,
+    }]);
+  } catch (err) {
+    // Another call from the same user got its count in first - a burst like that is over the limit
+    logger.warn("[ABUSE] " + ctx.userId + " sent concurrent " + rpcName + " calls");
+    throw new Error("Too many requests, try again shortly");
+  }
+}
+
+// Add a result to the history between two players and return the results inside the pairing window
+// Writes are versioned, so games between the same two players finishing at once all count (the loser retries)
+function addAbusePairingResult(
+  nk: nkruntime.Nakama,
+  playerIds: string[],
+  result: AbusePairingResult,
+  logger: nkruntime.Logger
+): AbusePairing {
+  var key = getAbusePairingKey(playerIds);
+  for (var attempt = 1; ; attempt++) {
+    var objects = nk.storageRead([{ collection: ABUSE_PAIRINGS_COLLECTION, key: key, userId: SYSTEM_USER_ID }]);
+    var object = objects && objects.length > 0 ? objects[0] : null;
+
+    var results: AbusePairingResult[] = [];
+    if (object) {
+      var value = object.value;
+      var stored = (typeof value === "string" ? JSON.parse(value) : value) as AbusePairing;
+      var cutoff = Date.now() - ABUSE_PAIR_WINDOW_MS;
+      for (var i = 0; i < stored.results.length; i++) {
+        if (stored.results[i].at >= cutoff) {
+          results.push(stored.results[i]);
+        }
+      }
+    }
+    results.push(result);
+    var pairing: AbusePairing = { results: results };
+
+    try {
+      nk.storageWrite([{
+        collection: ABUSE_PAIRINGS_COLLECTION,
+        key: key,
+        userId: SYSTEM_USER_ID,
+        value: pairing as any,
+        version: object ? object.version : "*", // "*" = only if nobody created it meanwhile
+        permissionRead: 0, // Server only
+        permissionWrite: 0,
+      }]);
+    } catch (err) {
+      if (attempt >= ABUSE_PAIRING_WRITE_ATTEMPTS) {
+        throw err;
+      }
+      logger.info("[ABUSE] Pairing " + key + " changed while updating, retrying");
+      continue;
+    }
+    return pairing;
+  }
+}
+
+// Same key whichever player is listed first
+function getAbusePairingKey(playerIds: string[]): string {
+  return playerIds.slice().sort().join(":");
+}
+
+// version is optional - pass the one read to fail on a concurrent write
+function writeAbuseReview(nk: nkruntime.Nakama, review: AbuseReview, version?: string): void {
+  nk.storageWrite([{
+    collection: ABUSE_REVIEWS_COLLECTION,
+    key: review.id,
+    userId: SYSTEM_USER_ID,
+    value: review as any,
+    version: version,
+    permissionRead: 0, // Server only
+    permissionWrite: 0,
+  }]);
+}
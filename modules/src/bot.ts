@@ -0,0 +1,243 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// bot.ts - Server-side AI opponent
+// The bot sits in a normal player seat and makes its moves inside matchLoop through handleMove,
+// so it goes through exactly the same validation as a human player.
+
+// Read the automatic bot fill settings from the runtime env
+function getBotFillConfig(ctx: nkruntime.Context): { fillMs: number; difficulty: BotDifficulty } {
+  var env = ctx.env || {};
+
+  var fillSeconds = parseInt(env["BOT_FILL_SECONDS"], 10);
+  if (isNaN(fillSeconds) || fillSeconds < 0) {
+    fillSeconds = DEFAULT_BOT_FILL_SECONDS;
+  }
+
+  var difficulty = env["BOT_FILL_DIFFICULTY"] as BotDifficulty;
+  if (BOT_DIFFICULTIES.indexOf(difficulty) === -1) {
+    difficulty = DEFAULT_BOT_DIFFICULTY;
+  }
+
+  return { fillMs: fillSeconds * 1000, difficulty: difficulty };
+}
+
+// Give the bot the free seat (and the symbol nobody has taken)
+function seatBot(state: GameState, difficulty: BotDifficulty, logger: nkruntime.Logger): void {
+  var takenSymbols: string[] = [];
+  for (var userId in state.players) {
+    takenSymbols.push(state.players[userId].symbol);
+  }
+
+  var symbol: "X" | "O" = takenSymbols.indexOf("X") === -1 ? "X" : "O";
+  var username = "Bot (" + difficulty + ")";
+
+  state.players[BOT_USER_ID] = {
+    username: username,
+    symbol: symbol,
+    connected: true,
+    reconnectDeadline: null,
+  };
+  state.series.wins[BOT_USER_ID] = 0;
+  state.bot = { userId: BOT_USER_ID, difficulty: difficulty, moveAt: null };
+
+  logger.info("[BOT] " + username + " seated as " + symbol);
+}
+
+// Bot games never count toward global_wins/global_losses, streaks or rating
+function isBotGame(state: GameState): boolean {
+  return state.bot !== null;
+}
+
+// Called every tick - schedules the bot's move after a short "thinking" delay, then plays it
+function runBotTurn(
+  state: GameState,
+  dispatcher: nkruntime.MatchDispatcher,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama
+): GameState {
+  var bot = state.bot;
+  if (!bot || state.status !== "active" || state.currentTurn !== bot.userId || state.clockPausedAt !== null) {
+    return state;
+  }
+
+  var now = Date.now();
+  if (bot.moveAt === null) {
+    bot.moveAt = now + BOT_THINK_MIN_MS + Math.floor(Math.random() * (BOT_THINK_MAX_MS - BOT_THINK_MIN_MS));
+    return state;
+  }
+
+  if (now < bot.moveAt) {
+    return state;
+  }
+
+  bot.moveAt = null;
+  var position = chooseBotMove(state, bot.difficulty);
+  logger.info("[BOT] Playing position " + position + " (" + bot.difficulty + ")");
+  return handleMove(state, bot.userId, position, dispatcher, logger, nk);
+}
+
+// Pick a move for the given difficulty
+// easy = random, medium = heuristic, hard = perfect minimax (3x3) / heuristic on bigger boards
+function chooseBotMove(state: GameState, difficulty: BotDifficulty): number {
+  var legalMoves = getLegalMoves(state);
+
+  if (difficulty === "easy") {
+    return legalMoves[Math.floor(Math.random() * legalMoves.length)];
+  }
+
+  var symbol = state.players[BOT_USER_ID].symbol;
+
+  // Full search is only affordable on the classic 3x3 board
+  if (difficulty === "hard" && !state.ultimate && state.board.length === 9 && state.winLength === 3) {
+    return findMinimaxMove(state.board.slice(), symbol);
+  }
+
+  return findHeuristicMove(state, legalMoves, symbol);
+}
+
+// Every cell the bot may play right now
+function getLegalMoves(state: GameState): number[] {
+  var moves: number[] = [];
+  for (var i = 0; i < state.board.length; i++) {
+    if (state.board[i] === null && (!state.ultimate || isUltimateMoveAllowed(state.ultimate, i))) {
+      moves.push(i);
+    }
+  }
+  return moves;
+}
+
+// Heuristic: win if possible, block the opponent's win, otherwise take the most central cell
+function findHeuristicMove(state: GameState, legalMoves: number[], symbol: "X" | "O"): number {
+  var opponent = symbol === "X" ? "O" : "X";
+
+  var winningMove = findCompletingMove(state, legalMoves, symbol);
+  if (winningMove !== null) {
+    return winningMove;
+  }
+
+  var blockingMove = findCompletingMove(state, legalMoves, opponent);
+  if (blockingMove !== null) {
+    return blockingMove;
+  }
+
+  // Centre first, ties broken randomly so the bot doesn't always play the same game
+  var best: number[] = [];
+  var bestDistance = Infinity;
+  for (var i = 0; i < legalMoves.length; i++) {
+    var distance = getDistanceFromCentre(state, legalMoves[i]);
+    if (distance < bestDistance) {
+      best = [legalMoves[i]];
+      bestDistance = distance;
+    } else if (distance === bestDistance) {
+      best.push(legalMoves[i]);
+    }
+  }
+  return best[Math.floor(Math.random() * best.length)];
+}
+
+// A move that would complete a line for this symbol (a local board line in ultimate)
+function findCompletingMove(state: GameState, legalMoves: number[], symbol: string): number | null {
+  for (var i = 0; i < legalMoves.length; i++) {
+    var position = legalMoves[i];
+    var board = state.board;
+    var width = state.boardWidth;
+    var height = state.boardHeight;
+
+    if (state.ultimate) {
+      var start = Math.floor(position / ULTIMATE_LOCAL_CELLS) * ULTIMATE_LOCAL_CELLS;
+      board = board.slice(start, start + ULTIMATE_LOCAL_CELLS);
+      position = position - start;
+    } else {
+      board = board.slice();
+    }
+
+    board[position] = symbol;
+    if (hasLineThrough(board, width, height, state.winLength, position)) {
+      return legalMoves[i];
+    }
+  }
+  return null;
+}
+
+// Distance of a cell from the centre of its (local) board
+function getDistanceFromCentre(state: GameState, position: number): number {
+  var cell = state.ultimate ? position % ULTIMATE_LOCAL_CELLS : position;
+  var row = Math.floor(cell / state.boardWidth);
+  var col = cell % state.boardWidth;
+  return Math.abs(row - (state.boardHeight - 1) / 2) + Math.abs(col - (state.boardWidth - 1) / 2);
+}
+
+// Perfect play on a 3x3 board (minimax with alpha-beta pruning)
+function findMinimaxMove(board: (string | null)[], symbol: string): number {
+  var opponent = symbol === "X" ? "O" : "X";
+  var bestScore = -Infinity;
+  var bestMoves: number[] = [];
+
+  for (var i = 0; i < board.length; i++) {
+    if (board[i] !== null) {
+      continue;
+    }
+    board[i] = symbol;
+    var score = minimax(board, i, opponent, symbol, 1, -Infinity, Infinity);
+    board[i] = null;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMoves = [i];
+    } else if (score === bestScore) {
+      bestMoves.push(i);
+    }
+  }
+
+  // Several equally good moves - vary the game a little
+  return bestMoves[Math.floor(Math.random() * bestMoves.length)];
+}
+
+// Score the position after lastMove from the bot's point of view (faster wins score higher)
+function minimax(
+  board: (string | null)[],
+  lastMove: number,
+  toMove: string,
+  botSymbol: string,
+  depth: number,
+  alpha: number,
+  beta: number
+): number {
+  var result = checkWinner(board, 3, 3, 3, lastMove);
+  if (result === botSymbol) {
+    return 10 - depth;
+  }
+  if (result === "draw") {
+    return 0;
+  }
+  if (result) {
+    return depth - 10;
+  }
+
+  var maximizing = toMove === botSymbol;
+  var next = toMove === "X" ? "O" : "X";
+  var best = maximizing ? -Infinity : Infinity;
+
+  for (var i = 0; i < board.length; i++) {
+    if (board[i] !== null) {
+      continue;
+    }
+    board[i] = toMove;
+    var score = minimax(board, i, next, botSymbol, depth + 1, alpha, beta);
+    board[i] = null;
+
+    if (maximizing) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, score);
+    }
+    if (beta <= alpha) {
+      break;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,321 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+/// <reference path="matchmaking.ts" />
+
+// challenge.ts - Direct challenges between users
+// challenge_user creates a reserved match for the two users and notifies the target. The
+// challenger can join right away; the target only gets in after accept_challenge. Declined or
+// unanswered challenges close their match, and users who blocked each other can't challenge.
+
+// RPC function to challenge another user
+// Payload: { userId, mode?, timeControl?, bestOf?, width?, height?, winLength? } (same options as find_match)
+let rpcChallengeUser: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[CHALLENGE] RPC challenge_user called by user: " + ctx.userId);
+  if (!ctx.userId) {
+    throw new Error("Challenging needs an authenticated user");
+  }
+  checkRpcRateLimit(ctx, nk, "challenge_user", logger);
+
+  var data = JSON.parse(payload || "{}");
+  var targetId = String(data.userId || "");
+  if (!targetId || targetId === ctx.userId) {
+    throw new Error("Invalid userId");
+  }
+
+  var users = nk.usersGetId([targetId]);
+  if (!users || users.length === 0) {
+    throw new Error("User not found");
+  }
+
+  // Either side blocking the other stops the challenge (the challenger isn't told which)
+  if (hasBlocked(nk, targetId, ctx.userId) || hasBlocked(nk, ctx.userId, targetId)) {
+    logger.info("[CHALLENGE] " + ctx.userId + " and " + targetId + " have a block between them");
+    throw new Error("You can't challenge this user");
+  }
+
+  // Pending limits on both sides, and one open challenge per pair
+  var sent = listPendingChallenges(nk, ctx.userId, CHALLENGES_SENT_COLLECTION);
+  if (sent.length >= CHALLENGE_MAX_PENDING) {
+    throw new Error("You already have " + CHALLENGE_MAX_PENDING + " pending challenges");
+  }
+  for (var i = 0; i < sent.length; i++) {
+    if (sent[i].targetId === targetId) {
+      throw new Error("You already challenged this user");
+    }
+  }
+  if (listPendingChallenges(nk, targetId, CHALLENGES_RECEIVED_COLLECTION).length >= CHALLENGE_MAX_PENDING) {
+    throw new Error("This user has too many pending challenges");
+  }
+
+  var options = parseMatchOptions(payload, logger);
+  var now = Date.now();
+  var challenge: Challenge = {
+    id: nk.uuidv4(),
+    challengerId: ctx.userId,
+    challengerUsername: ctx.username || "Unknown",
+    targetId: targetId,
+    targetUsername: users[0].username,
+    matchId: "",
+    mode: options.mode,
+    timeControl: options.timeControl ? options.timeControl.id : null,
+    status: "pending",
+    createdAt: now,
+    expiresAt: now + CHALLENGE_TTL_MS,
+    respondedAt: null,
+  };
+
+  challenge.matchId = createTicTacToeMatch(nk, options, {
+    reservedFor: ctx.userId + "," + targetId,
+    challengeId: challenge.id,
+    challengerId: ctx.userId,
+    challengeTargetId: targetId,
+    challengeExpiresAt: challenge.expiresAt,
+  });
+  writeChallenge(nk, challenge);
+
+  sendChallengeNotification(
+    nk,
+    targetId,
+    challenge.challengerUsername + " challenged you",
+    challenge,
+    CHALLENGE_NOTIFICATION_CODE,
+    ctx.userId,
+    logger
+  );
+
+  logger.info("[CHALLENGE] " + ctx.userId + " challenged " + targetId + " (match " + challenge.matchId + ")");
+  return JSON.stringify({ challenge: challenge });
+};
+
+// RPC function to accept a challenge - returns the match to join
+// Payload: { challengeId }
+let rpcAcceptChallenge: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[CHALLENGE] RPC accept_challenge called by user: " + ctx.userId);
+
+  var challenge = readReceivedChallenge(nk, ctx.userId, payload);
+
+  // The match may have been closed already (e.g. the server restarted)
+  if (!nk.matchGet(challenge.matchId)) {
+    challenge.status = "expired";
+    writeChallenge(nk, challenge);
+    throw new Error("Challenge has expired");
+  }
+
+  // Let the target in - the match keeps the seat open for CHALLENGE_JOIN_WINDOW_MS
+  nk.matchSignal(challenge.matchId, JSON.stringify({ type: "challenge_accepted" }));
+
+  challenge.status = "accepted";
+  challenge.respondedAt = Date.now();
+  writeChallenge(nk, challenge);
+
+  sendChallengeNotification(
+    nk,
+    challenge.challengerId,
+    challenge.targetUsername + " accepted your challenge",
+    challenge,
+    CHALLENGE_RESPONSE_NOTIFICATION_CODE,
+    ctx.userId,
+    logger
+  );
+
+  logger.info("[CHALLENGE] " + ctx.userId + " accepted challenge " + challenge.id);
+  return JSON.stringify({ challengeId: challenge.id, matchId: challenge.matchId });
+};
+
+// RPC function to decline a challenge - closes its match
+// Payload: { challengeId }
+let rpcDeclineChallenge: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[CHALLENGE] RPC decline_challenge called by user: " + ctx.userId);
+
+  var challenge = readReceivedChallenge(nk, ctx.userId, payload);
+
+  try {
+    nk.matchSignal(challenge.matchId, JSON.stringify({ type: "challenge_declined" }));
+  } catch (err) {
+    // Match is already gone - nothing to close
+  }
+
+  challenge.status = "declined";
+  challenge.respondedAt = Date.now();
+  writeChallenge(nk, challenge);
+
+  sendChallengeNotification(
+    nk,
+    challenge.challengerId,
+    challenge.targetUsername + " declined your challenge",
+    challenge,
+    CHALLENGE_RESPONSE_NOTIFICATION_CODE,
+    ctx.userId,
+    logger
+  );
+
+  logger.info("[CHALLENGE] " + ctx.userId + " declined challenge " + challenge.id);
+  return JSON.stringify({ challengeId: challenge.id, status: challenge.status });
+};
+
+// Challenge signals sent by the RPCs above (called from matchSignal)
+// Returns the reply for the caller, or null if the signal isn't a challenge signal
+function handleChallengeSignal(state: GameState, signal: { [field: string]: any }, logger: nkruntime.Logger): string | null {
+  var challenge = state.challenge;
+  if (!challenge || (signal.type !== "challenge_accepted" && signal.type !== "challenge_declined")) {
+    return null;
+  }
+
+  if (signal.type === "challenge_accepted") {
+    challenge.accepted = true;
+    challenge.expiresAt = Date.now() + CHALLENGE_JOIN_WINDOW_MS;
+    logger.info("[CHALLENGE] Challenge " + challenge.challengeId + " accepted, seat open for the target");
+  } else {
+    // Closed on the next tick (only if the game hasn't started)
+    challenge.expiresAt = 0;
+    logger.info("[CHALLENGE] Challenge " + challenge.challengeId + " declined, closing match");
+  }
+
+  return "ok";
+}
+
+// Challenge details for matchInit (null for matches that aren't a challenge)
+function getChallengeMatchInfo(params: { [key: string]: string }): ChallengeMatchInfo | null {
+  if (!params.challengeId) {
+    return null;
+  }
+
+  return {
+    challengeId: String(params.challengeId),
+    challengerId: String(params.challengerId),
+    targetId: String(params.challengeTargetId),
+    accepted: false,
+    expiresAt: Number(params.challengeExpiresAt) || Date.now() + CHALLENGE_TTL_MS,
+  };
+}
+
+// Read a pending challenge the caller received (throws if it can't be answered)
+function readReceivedChallenge(nk: nkruntime.Nakama, userId: string, payload: string): Challenge {
+  if (!userId) {
+    throw new Error("Answering a challenge needs an authenticated user");
+  }
+
+  var data = JSON.parse(payload || "{}");
+  if (!data.challengeId) {
+    throw new Error("Missing challengeId");
+  }
+
+  var objects = nk.storageRead([{
+    collection: CHALLENGES_RECEIVED_COLLECTION,
+    key: String(data.challengeId),
+    userId: userId,
+  }]);
+  if (!objects || objects.length === 0) {
+    throw new Error("Challenge not found");
+  }
+
+  var value = objects[0].value;
+  var challenge = (typeof value === "string" ? JSON.parse(value) : value) as Challenge;
+  if (challenge.status !== "pending") {
+    throw new Error("Challenge was already " + challenge.status);
+  }
+  if (challenge.expiresAt <= Date.now()) {
+    throw new Error("Challenge has expired");
+  }
+
+  return challenge;
+}
+
+// Write both copies of a challenge
+function writeChallenge(nk: nkruntime.Nakama, challenge: Challenge): void {
+  nk.storageWrite([
+    {
+      collection: CHALLENGES_SENT_COLLECTION,
+      key: challenge.id,
+      userId: challenge.challengerId,
+      value: challenge as any,
+      permissionRead: 1, // Owner read - players can list their own challenges
+      permissionWrite: 0, // Only server can write
+    },
+    {
+      collection: CHALLENGES_RECEIVED_COLLECTION,
+      key: challenge.id,
+      userId: challenge.targetId,
+      value: challenge as any,
+      permissionRead: 1,
+      permissionWrite: 0,
+    },
+  ]);
+}
+
+// A user's pending challenges in one collection; answered and expired ones are cleaned up on the way
+function listPendingChallenges(nk: nkruntime.Nakama, userId: string, collection: string): Challenge[] {
+  var pending: Challenge[] = [];
+  var stale: nkruntime.StorageDeleteRequest[] = [];
+  var now = Date.now();
+  var cursor = "";
+
+  do {
+    var result = nk.storageList(userId, collection, 100, cursor);
+    var objects = (result && result.objects) || [];
+    for (var i = 0; i < objects.length; i++) {
+      var value = objects[i].value;
+      var challenge = (typeof value === "string" ? JSON.parse(value) : value) as Challenge;
+      if (challenge.status === "pending" && challenge.expiresAt > now) {
+        pending.push(challenge);
+      } else {
+        stale.push({ collection: collection, key: objects[i].key, userId: userId });
+      }
+    }
+    cursor = (result && result.cursor) || "";
+  } while (cursor);
+
+  if (stale.length > 0) {
+    nk.storageDelete(stale);
+  }
+  return pending;
+}
+
+// Has userId blocked otherId? (Nakama friend state 3 on userId's friend list)
+function hasBlocked(nk: nkruntime.Nakama, userId: string, otherId: string): boolean {
+  var cursor = "";
+  do {
+    var result = nk.friendsList(userId, 1000, FRIEND_STATE_BLOCKED, cursor);
+    var friends = (result && result.friends) || [];
+    for (var i = 0; i < friends.length; i++) {
+      if (friends[i].user && friends[i].user.userId === otherId) {
+        return true;
+      }
+    }
+    cursor = (result && result.cursor) || "";
+  } while (cursor);
+
+  return false;
+}
+
+// Persistent in-app notification about a challenge
+function sendChallengeNotification(
+  nk: nkruntime.Nakama,
+  userId: string,
+  subject: string,
+  challenge: Challenge,
+  code: number,
+  senderId: string,
+  logger: nkruntime.Logger
+): void {
+  try {
+    nk.notificationSend(userId, subject, challenge as any, code, senderId, true);
+  } catch (err) {
+    logger.warn("[CHALLENGE] Failed to notify " + userId + " about challenge " + challenge.id + ": " + String(err));
+  }
+}
@@ -0,0 +1,160 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// chat.ts - In-match text chat and quick reactions
+// Players chat through the match itself, so messages never leave the game they belong to.
+// Everything is filtered on the server: cooldowns, length, blocklisted words and per-player mutes.
+
+// Read the chat blocklist: built-in words plus CHAT_BLOCKLIST from the runtime env
+function getChatBlocklist(ctx: nkruntime.Context): string[] {
+  var env = ctx.env || {};
+  var words = DEFAULT_CHAT_BLOCKLIST.slice();
+
+  var extra = (env["CHAT_BLOCKLIST"] || "").split(",");
+  for (var i = 0; i < extra.length; i++) {
+    var word = extra[i].replace(/^\s+|\s+$/g, "").toLowerCase();
+    if (word && words.indexOf(word) === -1) {
+      words.push(word);
+    }
+  }
+
+  return words;
+}
+
+// Mask blocklisted words (and words starting with them, e.g. "shitty") with asterisks
+function filterChatText(text: string, blocklist: string[]): string {
+  var filtered = text;
+  for (var i = 0; i < blocklist.length; i++) {
+    var escaped = blocklist[i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    filtered = filtered.replace(new RegExp("\\b" + escaped + "\\w*", "gi"), function (match: string) {
+      return new Array(match.length + 1).join("*");
+    });
+  }
+  return filtered;
+}
+
+// Handle a chat message or reaction from a player
+function handleChatMessage(
+  state: GameState,
+  opCode: number,
+  sender: nkruntime.Presence,
+  data: { [field: string]: any },
+  dispatcher: nkruntime.MatchDispatcher,
+  logger: nkruntime.Logger
+): GameState {
+  var senderId = sender.userId;
+  var player = state.players[senderId];
+  if (!player) {
+    logger.warn("[CHAT] Refusing chat from non-player " + sender.username);
+    return state;
+  }
+
+  var isReaction = opCode === OpCode.CHAT_REACTION;
+  var text: string | null = null;
+  var reaction: string | null = null;
+
+  if (isReaction) {
+    if (CHAT_REACTIONS.indexOf(data.reaction) === -1) {
+      logger.warn("[CHAT] Unknown reaction '" + data.reaction + "' from " + player.username);
+      return state;
+    }
+    reaction = data.reaction;
+  } else {
+    // Strip control characters and collapse whitespace before checking anything
+    text = String(data.text).replace(/[\u0000-\u001f\u007f]/g, " ").replace(/\s+/g, " ").replace(/^\s+|\s+$/g, "");
+    if (!text) {
+      return state;
+    }
+    text = filterChatText(text, state.chatBlocklist);
+  }
+
+  // Per-player cooldown (reactions have a shorter one)
+  var cooldownMs = isReaction ? CHAT_REACTION_COOLDOWN_MS : CHAT_COOLDOWN_MS;
+  if (isRateLimited(state, isReaction ? "reaction" : "chat", senderId, 1, cooldownMs)) {
+    logger.info("[CHAT] " + player.username + " is sending too fast, message dropped");
+    return state;
+  }
+
+  var lastEntry = state.chatHistory[state.chatHistory.length - 1];
+  var entry: ChatEntry = {
+    id: lastEntry ? lastEntry.id + 1 : 1,
+    userId: senderId,
+    username: player.username,
+    kind: isReaction ? "reaction" : "text",
+    text: text,
+    reaction: reaction,
+    sentAt: Date.now(),
+  };
+
+  state.chatHistory.push(entry);
+  if (state.chatHistory.length > CHAT_HISTORY_LIMIT) {
+    state.chatHistory.shift();
+  }
+
+  var recipients = getChatRecipients(state, senderId);
+  if (recipients.length > 0) {
+    dispatcher.broadcastMessage(opCode, JSON.stringify(entry), recipients);
+  }
+  // Spectators get it with the same delay as the board
+  sendToSpectators(dispatcher, state, opCode, JSON.stringify(entry));
+
+  return state;
+}
+
+// Handle CHAT_MUTE - hide (or show again) the opponent's chat for this player
+function handleChatMute(
+  state: GameState,
+  userId: string,
+  data: { [field: string]: any },
+  logger: nkruntime.Logger
+): GameState {
+  if (data.muted === true) {
+    state.chatMuted[userId] = true;
+  } else {
+    delete state.chatMuted[userId];
+  }
+
+  logger.info("[CHAT] " + userId + (data.muted === true ? " muted" : " unmuted") + " their opponent's chat");
+  return state;
+}
+
+// Players who should see chat from this sender right away - spectators go through sendToSpectators
+// (players who muted their opponent never receive the opponent's messages)
+function getChatRecipients(state: GameState, senderId: string): nkruntime.Presence[] {
+  var recipients: nkruntime.Presence[] = [];
+
+  for (var userId in state.playerPresences) {
+    if (userId !== senderId && state.chatMuted[userId]) {
+      continue;
+    }
+    recipients.push(state.playerPresences[userId]);
+  }
+
+  return recipients;
+}
+
+// Send the chat so far to one presence (join, reconnect, resync)
+function sendChatHistory(
+  dispatcher: nkruntime.MatchDispatcher,
+  state: GameState,
+  presence: nkruntime.Presence
+): void {
+  var muted = !!state.chatMuted[presence.userId];
+  // Spectators only get what has made it through the broadcast delay (the rest is still queued)
+  var visibleUntil = state.players[presence.userId] ? Infinity : Date.now() - state.spectatorDelayMs;
+  var messages: ChatEntry[] = [];
+  for (var i = 0; i < state.chatHistory.length; i++) {
+    var entry = state.chatHistory[i];
+    if (muted && entry.userId !== presence.userId) {
+      continue;
+    }
+    if (entry.sentAt > visibleUntil) {
+      continue;
+    }
+    messages.push(entry);
+  }
+
+  if (messages.length > 0) {
+    dispatcher.broadcastMessage(OpCode.CHAT_HISTORY, JSON.stringify({ messages: messages }), [presence]);
+  }
+}
@@ -0,0 +1,92 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// clock.ts - Time controls (per-move limit, chess clock, Fischer increment)
+// Everything is judged on timestamps, not ticks: a move received before the deadline counts
+// even if the tick that processes it runs later, and a late move is rejected even if no tick
+// has noticed the flag yet. That keeps enforcement accurate at tickRate 1.
+
+// Look up a time control preset by name (null if unknown)
+function getTimeControl(id: string | null | undefined): TimeControl | null {
+  if (!id || !TIME_CONTROL_PRESETS.hasOwnProperty(id)) {
+    return null;
+  }
+  return TIME_CONTROL_PRESETS[id];
+}
+
+// Give every player a full time bank (start of each game)
+function initClock(state: GameState): void {
+  state.clock = {};
+  if (!state.timeControl) {
+    return;
+  }
+  for (var userId in state.players) {
+    state.clock[userId] = state.timeControl.bankMs;
+  }
+}
+
+// Time the player has left at the given moment (null when the game has no clock)
+// The player to move loses time from the turn start; the other player's bank is frozen
+function getRemainingMs(state: GameState, userId: string, at: number): number | null {
+  var timeControl = state.timeControl;
+  if (!timeControl) {
+    return null;
+  }
+
+  var elapsed = 0;
+  if (state.currentTurn === userId && state.turnStartTimestamp !== null && state.status === "active") {
+    // While the clock is paused (reconnect grace) time stops at the pause
+    var until = state.clockPausedAt !== null ? state.clockPausedAt : at;
+    elapsed = Math.max(0, until - state.turnStartTimestamp);
+  }
+
+  var remaining = Infinity;
+  if (timeControl.bankMs > 0) {
+    remaining = (state.clock[userId] || 0) - elapsed;
+  }
+  if (timeControl.moveMs > 0) {
+    remaining = Math.min(remaining, timeControl.moveMs - elapsed);
+  }
+
+  return Math.max(0, remaining);
+}
+
+// Has the player to move run out of time at this moment?
+function isOutOfTime(state: GameState, userId: string, at: number): boolean {
+  var remaining = getRemainingMs(state, userId, at);
+  return remaining !== null && remaining <= 0;
+}
+
+// Charge the time used for a move to the mover's bank and add the increment
+function chargeMove(state: GameState, userId: string, at: number): void {
+  var timeControl = state.timeControl;
+  if (!timeControl || timeControl.bankMs <= 0 || state.turnStartTimestamp === null) {
+    return;
+  }
+
+  // Time spent while the clock was paused isn't charged
+  var until = state.clockPausedAt !== null ? Math.min(at, state.clockPausedAt) : at;
+  var used = Math.max(0, until - state.turnStartTimestamp);
+  state.clock[userId] = Math.max(0, (state.clock[userId] || 0) - used) + timeControl.incrementMs;
+}
+
+// Refresh the remaining-time snapshot sent with every STATE_UPDATE
+// serverTime lets clients run their countdown from the same instant
+function updateClockSnapshot(state: GameState): void {
+  var now = Date.now();
+  state.serverTime = now;
+  state.remainingMs = {};
+  if (!state.timeControl) {
+    return;
+  }
+  for (var userId in state.players) {
+    state.remainingMs[userId] = getRemainingMs(state, userId, now) as number;
+  }
+}
+
+// Label/ticket query terms matching the same time control (all zeros when untimed)
+function getTimeControlQuery(field: string, timeControl: TimeControl | null): string {
+  return " +" + field + ".clockBank:" + (timeControl ? timeControl.bankMs / 1000 : 0) +
+    " +" + field + ".clockIncrement:" + (timeControl ? timeControl.incrementMs / 1000 : 0) +
+    " +" + field + ".clockMove:" + (timeControl ? timeControl.moveMs / 1000 : 0);
+}
@@ -1,6 +1,25 @@
 /// <reference path="../node_modules/nakama-runtime/index.d.ts" />
 /// <reference path="types.ts" />
+/// <reference path="clock.ts" />
+/// <reference path="messages.ts" />
+/// <reference path="state_sync.ts" />
+/// <reference path="voice.ts" />
+/// <reference path="chat.ts" />
 /// <reference path="match_handler.ts" />
+/// <reference path="private_match.ts" />
+/// <reference path="rating.ts" />
+/// <reference path="matchmaking.ts" />
+/// <reference path="match_history.ts" />
+/// <reference path="bot.ts" />
+/// <reference path="standings.ts" />
+/// <reference path="seasons.ts" />
+/// <reference path="profile.ts" />
+/// <reference path="achievements.ts" />
+/// <reference path="tournament.ts" />
+/// <reference path="challenge.ts" />
+/// <reference path="admin.ts" />
+/// <reference path="anti_abuse.ts" />
+/// <reference path="user_data.ts" />
 
 // main.ts - Entry point for Nakama server modules
 // This file is called by Nakama on startup
@@ -29,17 +48,78 @@ let InitModule: nkruntime.InitModule = function (
 
   logger.info("Match handler 'tic_tac_toe' registered");
 
-  // Register RPC function for finding or creating matches
+  // Register Nakama matchmaker hooks - validate tickets and create the match for each pair
+  initializer.registerRtBefore("MatchmakerAdd", beforeMatchmakerAdd);
+  initializer.registerRtAfter("MatchmakerRemove", afterMatchmakerRemove);
+  initializer.registerMatchmakerMatched(matchmakerMatched);
+  logger.info("Matchmaker hooks registered");
+
+  // Register RPC function for finding or creating matches (compatibility shim for pre-matchmaker clients)
   initializer.registerRpc("find_match", rpcFindMatch);
   logger.info("RPC 'find_match' registered");
 
-  // Register RPC function for fetching leaderboard
+  // Register RPC function for listing games spectators can watch
+  initializer.registerRpc("list_live_matches", rpcListLiveMatches);
+  logger.info("RPC 'list_live_matches' registered");
+
+  // Register RPC functions for private matches with join codes
+  initializer.registerRpc("create_private_match", rpcCreatePrivateMatch);
+  initializer.registerRpc("join_private_match", rpcJoinPrivateMatch);
+  logger.info("RPCs 'create_private_match', 'join_private_match' registered");
+
+  // Register RPC function for fetching leaderboard pages (see standings.ts)
   initializer.registerRpc("get_leaderboard", rpcGetLeaderboard);
   logger.info("RPC 'get_leaderboard' registered");
 
-  // Register RPC function for deleting user data on logout
+  // Register RPC function and reset hook for seasons
+  initializer.registerRpc("get_season_results", rpcGetSeasonResults);
+  initializer.registerLeaderboardReset(onLeaderboardReset);
+  logger.info("RPC 'get_season_results' and leaderboard reset hook registered");
+
+  // Register RPC function for player profiles and detailed stats
+  initializer.registerRpc("get_player_profile", rpcGetPlayerProfile);
+  logger.info("RPC 'get_player_profile' registered");
+
+  // Register RPC function for achievements
+  initializer.registerRpc("get_achievements", rpcGetAchievements);
+  logger.info("RPC 'get_achievements' registered");
+
+  // Register RPC functions for tournaments
+  initializer.registerRpc("create_tournament", rpcCreateTournament);
+  initializer.registerRpc("join_tournament", rpcJoinTournament);
+  initializer.registerRpc("start_tournament", rpcStartTournament);
+  initializer.registerRpc("get_tournament", rpcGetTournament);
+  initializer.registerRpc("list_tournaments", rpcListTournaments);
+  logger.info("RPCs 'create_tournament', 'join_tournament', 'start_tournament', 'get_tournament', 'list_tournaments' registered");
+
+  // Register RPC functions for friend challenges
+  initializer.registerRpc("challenge_user", rpcChallengeUser);
+  initializer.registerRpc("accept_challenge", rpcAcceptChallenge);
+  initializer.registerRpc("decline_challenge", rpcDeclineChallenge);
+  logger.info("RPCs 'challenge_user', 'accept_challenge', 'decline_challenge' registered");
+
+  // Register RPC functions for operators (ADMIN_USER_IDS or the HTTP key only)
+  initializer.registerRpc("admin_list_matches", rpcAdminListMatches);
+  initializer.registerRpc("admin_end_match", rpcAdminEndMatch);
+  initializer.registerRpc("admin_broadcast", rpcAdminBroadcast);
+  initializer.registerRpc("admin_void_result", rpcAdminVoidResult);
+  logger.info("RPCs 'admin_list_matches', 'admin_end_match', 'admin_broadcast', 'admin_void_result' registered");
+
+  // Register RPC functions for the abuse review queue (admins only)
+  initializer.registerRpc("admin_list_reviews", rpcAdminListReviews);
+  initializer.registerRpc("admin_resolve_review", rpcAdminResolveReview);
+  logger.info("RPCs 'admin_list_reviews', 'admin_resolve_review' registered");
+
+  // Register RPC functions for match history and replays
+  initializer.registerRpc("get_match_history", rpcGetMatchHistory);
+  initializer.registerRpc("get_replay", rpcGetReplay);
+  logger.info("RPCs 'get_match_history', 'get_replay' registered");
+
+  // Register RPC functions for data export and account deletion (see user_data.ts)
+  initializer.registerRpc("export_user_data", rpcExportUserData);
   initializer.registerRpc("delete_user_data", rpcDeleteUserData);
-  logger.info("RPC 'delete_user_data' registered");
+  initializer.registerRpc("cancel_user_deletion", rpcCancelUserDeletion);
+  logger.info("RPCs 'export_user_data', 'delete_user_data', 'cancel_user_deletion' registered");
 
   // Create leaderboards for tracking player stats
   try {
@@ -73,11 +153,54 @@ let InitModule: nkruntime.InitModule = function (
     logger.info("Leaderboard 'global_losses' already exists (this is normal on restart)");
   }
 
+  try {
+    // Create rating leaderboard - score is replaced with the latest rating, not added
+    nk.leaderboardCreate(
+      RATING_LEADERBOARD_ID, // Leaderboard ID
+      false,              // Not authoritative
+      nkruntime.SortOrder.DESCENDING,   // Sort order (highest rating first)
+      nkruntime.Operator.SET,           // Operator: overwrite with the new rating
+      "",                 // No reset schedule
+      {}                  // No metadata
+    );
+    logger.info("Leaderboard '" + RATING_LEADERBOARD_ID + "' created with set operator");
+  } catch (error) {
+    logger.info("Leaderboard '" + RATING_LEADERBOARD_ID + "' already exists (this is normal on restart)");
+  }
+
+  try {
+    // Create wins-vs-bot leaderboard - bot games never touch global_wins/global_losses
+    nk.leaderboardCreate(
+      BOT_LEADERBOARD_ID, // Leaderboard ID
+      false,              // Not authoritative
+      nkruntime.SortOrder.DESCENDING,   // Sort order (highest score first)
+      nkruntime.Operator.INCREMENTAL,   // Operator: increment scores (not replace)
+      "",                 // No reset schedule
+      {}                  // No metadata
+    );
+    logger.info("Leaderboard '" + BOT_LEADERBOARD_ID + "' created with increment operator");
+  } catch (error) {
+    logger.info("Leaderboard '" + BOT_LEADERBOARD_ID + "' already exists (this is normal on restart)");
+  }
+
+  // Create the per-mode, per-sort standings leaderboards behind get_leaderboard
+  createStandingsLeaderboards(nk, logger);
+
+  // Copy players from before the standings existed onto them (once)
+  backfillLegacyStandings(nk, logger);
+
+  // Create the seasonal board (resets on SEASON_RESET_SCHEDULE)
+  createSeasonLeaderboard(ctx, nk, logger);
+
+  // Create the board whose hourly reset runs scheduled account deletions
+  createUserDeletionSweep(nk, logger);
+
   logger.info("Tic-Tac-Toe server module loaded successfully!");
 };
 
 // RPC function to find an existing match or create a new one
-// This solves the matchmaking problem: first player creates, second player joins
+// Compatibility shim for clients that haven't moved to matchmaker tickets yet:
+// first player creates, second player joins. New clients should use socket.addMatchmaker
 let rpcFindMatch: nkruntime.RpcFunction = function (
   ctx: nkruntime.Context,
   logger: nkruntime.Logger,
@@ -85,24 +208,41 @@ let rpcFindMatch: nkruntime.RpcFunction = function (
   payload: string
 ): string {
   logger.info("RPC find_match called by user: " + ctx.userId);
+  checkRpcRateLimit(ctx, nk, "find_match", logger);
 
-  // Parse mode from payload
-  var data = JSON.parse(payload);
-  var mode: string = data.mode || "timed"; // Default to timed for backwards compatibility
+  // Parse and validate mode + series length from payload
+  var options = parseMatchOptions(payload, logger);
+  var mode = options.mode;
+  var bestOf = options.bestOf;
   logger.info("Finding match with mode: " + mode);
 
-  // Validate mode
-  if (mode !== "classic" && mode !== "timed") {
-    logger.error("Invalid mode: " + mode);
-    throw new Error("Invalid mode. Must be 'classic' or 'timed'");
+  // "vs bot" - skip matchmaking and start a match against a server-controlled player
+  var data = JSON.parse(payload || "{}");
+  if (data.vsBot) {
+    var difficulty: BotDifficulty = data.botDifficulty || DEFAULT_BOT_DIFFICULTY;
+    if (BOT_DIFFICULTIES.indexOf(difficulty) === -1) {
+      logger.error("Invalid botDifficulty: " + data.botDifficulty);
+      throw new Error("Invalid botDifficulty. Must be one of " + BOT_DIFFICULTIES.join(", "));
+    }
+
+    var botMatchId = createTicTacToeMatch(nk, options, { bot: difficulty, reservedFor: ctx.userId });
+    logger.info("Created bot match: " + botMatchId + " (" + difficulty + ")");
+    return JSON.stringify({ matchId: botMatchId, vsBot: true });
   }
 
-  // List all active tic-tac-toe matches with matching mode
+  // Only pair players who picked the same clock and board configuration
+  var boardQuery = getTimeControlQuery("label", options.timeControl) + " +label.width:" + options.width + " +label.height:" + options.height + " +label.winLength:" + options.winLength;
+
+  // Caller's rating in this mode - waiting matches only accept players inside their rating window
+  var rating = Math.round(getPlayerRating(nk, ctx.userId, mode).rating);
+
+  // List all active tic-tac-toe matches with matching mode whose window covers our rating
   let matches: nkruntime.Match[];
   try {
-    const query = "+label.open:1 +label.mode:" + mode; // Find open matches with same mode
+    const query = "+label.open:1 +label.mode:" + mode + " +label.bestOf:" + bestOf + boardQuery +
+      " +label.ratingMin:<=" + rating + " +label.ratingMax:>=" + rating;
     matches = nk.matchList(10, true, "", null, 1, query);
-    logger.info("Found " + matches.length + " open matches for mode: " + mode);
+    logger.info("Found " + matches.length + " open matches for mode: " + mode + " (rating " + rating + ")");
   } catch (error) {
     logger.error("Error listing matches: " + error);
     throw error;
@@ -111,25 +251,108 @@ let rpcFindMatch: nkruntime.RpcFunction = function (
   let matchId: string;
 
   if (matches.length > 0) {
-    // There's an open match - join it!
-    matchId = matches[0].matchId;
-    logger.info("Joining existing match: " + matchId);
+    // There's an open match - join the one closest to our rating
+    var closest = matches[0];
+    var closestGap = Infinity;
+    for (var i = 0; i < matches.length; i++) {
+      var label = JSON.parse(matches[i].label || "{}");
+      var gap = Math.abs((label.rating || DEFAULT_RATING) - rating);
+      if (gap < closestGap) {
+        closest = matches[i];
+        closestGap = gap;
+      }
+    }
+    matchId = closest.matchId;
+    logger.info("Joining existing match: " + matchId + " (rating gap " + closestGap + ")");
   } else {
     // No open matches - create a new one
     logger.info("No open matches found, creating new match with mode: " + mode);
     try {
-      matchId = nk.matchCreate("tic_tac_toe", { open: true, mode: mode });
+      matchId = createTicTacToeMatch(nk, options, { rating: rating });
       logger.info("Created new match: " + matchId + " with mode: " + mode);
     } catch (error) {
       logger.error("Error creating match: " + error);
       throw error;
     }
+
+    // RACE FIX: Two players calling at the same moment can both end up creating a match.
+    // Look again and everyone settles on the oldest open match, so nobody waits alone forever.
+    // (Server code can't submit matchmaker tickets for a user, so this shim keeps listing matches.)
+    try {
+      const query = "+label.open:1 +label.mode:" + mode + " +label.bestOf:" + bestOf + boardQuery +
+        " +label.ratingMin:<=" + rating + " +label.ratingMax:>=" + rating;
+      var recheck = nk.matchList(10, true, "", null, 1, query);
+      var oldestMatchId = matchId;
+      var oldestCreatedAt = Infinity;
+      for (var j = 0; j < recheck.length; j++) {
+        var recheckLabel = JSON.parse(recheck[j].label || "{}");
+        if (recheckLabel.createdAt < oldestCreatedAt) {
+          oldestCreatedAt = recheckLabel.createdAt;
+          oldestMatchId = recheck[j].matchId;
+        }
+      }
+
+      // Only move if the match we created can be closed - if someone already joined it, stay with them
+      if (oldestMatchId !== matchId &&
+        nk.matchSignal(matchId, JSON.stringify({ type: "abandon_if_empty" })) === "ok") {
+        matchId = oldestMatchId;
+      }
+      logger.info("Settled on match: " + matchId);
+    } catch (error) {
+      logger.warn("Error re-checking open matches, keeping created match: " + error);
+    }
   }
 
   // Return the match ID to the client
   return JSON.stringify({ matchId: matchId });
 };
 
+// RPC function to list public games in progress that spectators can watch
+// Client then joins the match with { role: "spectator" } in the join metadata
+let rpcListLiveMatches: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("RPC list_live_matches called by user: " + ctx.userId);
+  checkRpcRateLimit(ctx, nk, "list_live_matches", logger);
+
+  var data = JSON.parse(payload || "{}");
+  var limit = Math.min(Math.max(Number(data.limit) || 20, 1), 100);
+
+  // Active public matches only, optionally filtered by mode
+  var query = "+label.status:active +label.private:0";
+  if (GAME_MODES.indexOf(data.mode) !== -1) {
+    query += " +label.mode:" + data.mode;
+  }
+
+  // No size filter - bot seats have no presence and a player in the reconnect window is briefly gone,
+  // the label status alone says whether the game is running
+  var matches = nk.matchList(limit, true, "", null, 2 + MAX_SPECTATORS, query);
+
+  var liveMatches = [];
+  for (var i = 0; i < matches.length; i++) {
+    var label = JSON.parse(matches[i].label || "{}");
+    liveMatches.push({
+      matchId: matches[i].matchId,
+      mode: label.mode,
+      timed: label.timed === 1,
+      timeControl: label.timeControl || null,
+      vsBot: label.bot === 1,
+      bestOf: label.bestOf,
+      width: label.width,
+      height: label.height,
+      winLength: label.winLength,
+      players: label.players || [],
+      spectators: label.spectators || 0,
+    });
+  }
+
+  logger.info("Returning " + liveMatches.length + " live matches");
+  return JSON.stringify({ matches: liveMatches });
+};
+
 // Helper function to get streak data for a user
 function getStreakData(
   nk: nkruntime.Nakama,
@@ -178,168 +401,3 @@ function getStreakData(
     return { winStreak: 0, bestWinStreak: 0 };
   }
 }
-
-// RPC function to fetch the top players from the leaderboard
-let rpcGetLeaderboard: nkruntime.RpcFunction = function (
-  ctx: nkruntime.Context,
-  logger: nkruntime.Logger,
-  nk: nkruntime.Nakama,
-  payload: string
-): string {
-  logger.info("RPC get_leaderboard called");
-
-  try {
-    // Fetch wins
-    var winsRecords = nk.leaderboardRecordsList("global_wins", [], 100, "", 0);
-
-    // Fetch losses
-    var lossesRecords = nk.leaderboardRecordsList("global_losses", [], 100, "", 0);
-
-    // Create a map to combine wins and losses
-    var playerStats: { [key: string]: any } = {};
-
-    // Process wins
-    if (winsRecords && winsRecords.records) {
-      for (var i = 0; i < winsRecords.records.length; i++) {
-        var record = winsRecords.records[i];
-        playerStats[record.ownerId] = {
-          userId: record.ownerId,
-          username: record.username || "Unknown",
-          wins: record.score,
-          losses: 0
-        };
-      }
-    }
-
-    // Process losses
-    if (lossesRecords && lossesRecords.records) {
-      for (var j = 0; j < lossesRecords.records.length; j++) {
-        var lossRecord = lossesRecords.records[j];
-        if (playerStats[lossRecord.ownerId]) {
-          playerStats[lossRecord.ownerId].losses = lossRecord.score;
-        } else {
-          playerStats[lossRecord.ownerId] = {
-            userId: lossRecord.ownerId,
-            username: lossRecord.username || "Unknown",
-            wins: 0,
-            losses: lossRecord.score
-          };
-        }
-      }
-    }
-
-    // Convert to array and calculate win rate + fetch streaks
-    var leaderboard = [];
-    for (var userId in playerStats) {
-      var player = playerStats[userId];
-      var totalGames = player.wins + player.losses;
-      var winRate = totalGames > 0 ? (player.wins / totalGames) * 100 : 0;
-
-      // Fetch streak data for this player
-      var streakData = getStreakData(nk, player.userId, logger);
-      logger.info(`[LB] Player ${player.username} (${player.userId}): winStreak=${streakData.winStreak}, bestWinStreak=${streakData.bestWinStreak}`);
-
-      leaderboard.push({
-        userId: player.userId,
-        username: player.username,
-        wins: player.wins,
-        losses: player.losses,
-        winRate: Math.round(winRate * 10) / 10, // Round to 1 decimal
-        winStreak: streakData.winStreak,
-        bestWinStreak: streakData.bestWinStreak
-      });
-    }
-
-    // Sort by wins (descending)
-    leaderboard.sort(function (a, b) {
-      return b.wins - a.wins;
-    });
-
-    // Take top 10
-    leaderboard = leaderboard.slice(0, 10);
-
-    logger.info("Returning " + leaderboard.length + " leaderboard entries with wins/losses/streaks");
-    return JSON.stringify({ leaderboard: leaderboard });
-  } catch (error) {
-    logger.error("Error fetching leaderboard: " + error);
-    return JSON.stringify({ leaderboard: [], error: String(error) });
-  }
-};
-
-// RPC function to delete user data (for logout)
-let rpcDeleteUserData: nkruntime.RpcFunction = function (
-  ctx: nkruntime.Context,
-  logger: nkruntime.Logger,
-  nk: nkruntime.Nakama,
-  payload: string
-): string {
-  logger.info("[DELETE] ========================================");
-  logger.info("[DELETE] RPC delete_user_data called by user: " + ctx.userId);
-
-  try {
-    if (!ctx.userId) {
-      logger.error("[DELETE] No user ID in context");
-      return JSON.stringify({ success: false, error: "No user ID" });
-    }
-
-    var userId = ctx.userId;
-
-    // Delete wins leaderboard records
-    logger.info("[DELETE] Attempting to delete wins leaderboard records...");
-    try {
-      nk.leaderboardRecordDelete("global_wins", userId);
-      logger.info("[DELETE] ✓ Successfully deleted wins records for user: " + userId);
-    } catch (error) {
-      logger.warn("[DELETE] ✗ Failed to delete wins records (might not exist): " + error);
-    }
-
-    // Delete losses leaderboard records
-    logger.info("[DELETE] Attempting to delete losses leaderboard records...");
-    try {
-      nk.leaderboardRecordDelete("global_losses", userId);
-      logger.info("[DELETE] ✓ Successfully deleted losses records for user: " + userId);
-    } catch (error) {
-      logger.warn("[DELETE] ✗ Failed to delete losses records (might not exist): " + error);
-    }
-
-    // Delete streak storage object
-    logger.info("[DELETE] Attempting to delete streak storage object...");
-    try {
-      const storageKey = userId + "_streaks";
-      const collection = "user_streaks";
-      var deleteObjects: nkruntime.StorageDeleteRequest[] = [{
-        collection: collection,
-        key: storageKey,
-        userId: userId
-      }];
-      nk.storageDelete(deleteObjects);
-      logger.info("[DELETE] ✓ Successfully deleted streak storage for user: " + userId);
-    } catch (error) {
-      logger.warn("[DELETE] ✗ Failed to delete streak storage (might not exist): " + error);
-    }
-
-    // All data deleted successfully - return success BEFORE deleting account
-    // (Account deletion will close the WebSocket, so we return first)
-    logger.info("[DELETE] ✓ Successfully completed deletion process for user: " + userId);
-    logger.info("[DELETE] ========================================");
-
-    // Delete user account asynchronously (after returning response)
-    // This properly deletes the user and frees up the username for reuse
-    // We do this last because it will invalidate the session and close the WebSocket
-    logger.info("[DELETE] Attempting to delete user account using nk.accountDeleteId...");
-    try {
-      nk.accountDeleteId(userId);
-      logger.info("[DELETE] ✓ Successfully deleted user account. Username is now available for reuse.");
-    } catch (error) {
-      logger.error("[DELETE] ✗ Failed to delete user account: " + error);
-      // Don't return error here - data is already deleted, account deletion failure is logged
-    }
-
-    // Return success immediately (before account deletion closes the socket)
-    return JSON.stringify({ success: true });
-  } catch (error) {
-    logger.error("[DELETE] ✗ Error deleting user data: " + error);
-    logger.info("[DELETE] ========================================");
-    return JSON.stringify({ success: false, error: String(error) });
-  }
-};
@@ -18,24 +18,106 @@ let matchInit: nkruntime.MatchInitFunction<GameState> = function (
 ) {
   // Get mode from params (sent by matchCreate)
   var mode: GameMode = (params.mode as GameMode) || "timed";
+  // Clock preset (validated by parseMatchOptions) - "timed" always has one
+  var timeControl = mode === "classic" ? null : getTimeControl(params.timeControl);
+  if (mode === "timed" && !timeControl) {
+    timeControl = getTimeControl(DEFAULT_TIME_CONTROL);
+  }
   logger.info("<� New Tic-Tac-Toe match created with mode: " + mode);
 
+  // Series length (best of N) - anything we don't recognise falls back to open-ended
+  var bestOf = parseInt(params.bestOf, 10);
+  if (SERIES_BEST_OF_OPTIONS.indexOf(bestOf) === -1) {
+    bestOf = 0;
+  }
+
+  // Board configuration (validated by parseMatchOptions before the match is created)
+  // Ultimate always uses 3x3 local boards, 3 in a row
+  var boardWidth = mode === "ultimate" ? 3 : parseInt(params.width, 10) || DEFAULT_BOARD_SIZE;
+  var boardHeight = mode === "ultimate" ? 3 : parseInt(params.height, 10) || DEFAULT_BOARD_SIZE;
+  var winLength = mode === "ultimate" ? 3 : parseInt(params.winLength, 10) || DEFAULT_WIN_LENGTH;
+
+  // Reconnection settings come from the runtime env (data/local.yml)
+  var reconnectConfig = getReconnectConfig(ctx);
+  var botFillConfig = getBotFillConfig(ctx);
+  var lifecycleConfig = getLifecycleConfig(ctx);
+
+  // "vs bot" matches know their bot from the start - it takes its seat once the player joins
+  var botDifficulty = params.bot as BotDifficulty;
+  var bot: BotState | null = BOT_DIFFICULTIES.indexOf(botDifficulty) !== -1
+    ? { userId: BOT_USER_ID, difficulty: botDifficulty, moveAt: null }
+    : null;
+
   // Create fresh game state (empty board, no players)
   var state: GameState = {
-    board: [null, null, null, null, null, null, null, null, null], // Empty 3x3 board
+    board: createEmptyBoard(getBoardCellCount(mode, boardWidth, boardHeight)), // Empty width x height board (81 cells for ultimate)
+    boardWidth: boardWidth,
+    boardHeight: boardHeight,
+    winLength: winLength,
     currentTurn: null,
+    version: 0,
     players: {},
     status: "waiting",
     winner: null,
     mode: mode,
+    timeControl: timeControl,
+    clock: {},
+    remainingMs: {},
+    serverTime: Date.now(),
+    ultimate: mode === "ultimate" ? createUltimateState() : null,
     createdAt: Date.now(),
+    matchId: ctx.matchId || "",
+    moves: [],
+    gameStartedAt: null,
+    endReason: null,
+    completedAt: null,
+    closeReason: null,
+    waitingTimeoutMs: lifecycleConfig.waitingTimeoutMs,
+    postGameMs: lifecycleConfig.postGameMs,
     turnStartTimestamp: null,
+    reconnectGraceMs: reconnectConfig.graceMs,
+    clockPolicy: reconnectConfig.clockPolicy,
+    clockPausedAt: null,
+    series: {
+      bestOf: bestOf,
+      gamesPlayed: 0,
+      wins: {},
+      draws: 0,
+      winner: null,
+    },
+    rematch: null,
+    isPrivate: !!params.privateCode,
+    privateCode: params.privateCode || null,
+    reservedFor: params.reservedFor ? String(params.reservedFor).split(",") : null,
+    hostRating: parseFloat(params.rating) || DEFAULT_RATING,
+    ratingWindow: RATING_WINDOW_BASE,
+    bot: bot,
+    botFillMs: botFillConfig.fillMs,
+    botFillDifficulty: botFillConfig.difficulty,
+    spectators: {},
+    spectatorDelayMs: getSpectatorDelayMs(ctx),
+    voice: {},
+    tournament: getTournamentMatchInfo(ctx, params),
+    challenge: getChallengeMatchInfo(params),
+    pendingSpectators: {},
+    playerPresences: {},
+    spectatorPresences: {},
+    spectatorQueue: [],
+    label: "",
+    snapshot: "",
+    spectatorSnapshot: "",
+    rateLimits: {},
+    chatHistory: [],
+    chatMuted: {},
+    chatBlocklist: getChatBlocklist(ctx),
+    emptySince: null,
   };
+  state.label = buildMatchLabel(state);
 
   return {
     state: state,
     tickRate: 1, // Server tick rate (1 = process every second)
-    label: JSON.stringify({ open: 1, mode: mode }),   // Mark match as open with mode for matchmaking
+    label: state.label,   // Mark match as open with mode for matchmaking
   };
 };
 
@@ -51,6 +133,84 @@ let matchJoinAttempt: nkruntime.MatchJoinAttemptFunction<GameState> = function (
   presence: nkruntime.Presence,
   metadata: { [key: string]: any }
 ) {
+  // RECONNECT: A player who dropped out of an active game may take their seat back
+  var existingPlayer = state.players[presence.userId];
+  if (existingPlayer && !existingPlayer.connected && state.status === "active") {
+    logger.info("[RECONNECT] Accepting returning player: " + presence.username);
+    return {
+      state: state,
+      accept: true,
+    };
+  }
+
+  // CHALLENGE: Only the two invited users get in (no spectators), the target only after accepting
+  if (state.challenge) {
+    if (presence.userId !== state.challenge.challengerId && presence.userId !== state.challenge.targetId) {
+      logger.info("[CHALLENGE] Rejecting user not invited to this challenge: " + presence.username);
+      return {
+        state: state,
+        accept: false,
+        rejectMessage: "Match is reserved for a challenge",
+      };
+    }
+    if (presence.userId === state.challenge.targetId && !state.challenge.accepted) {
+      return {
+        state: state,
+        accept: false,
+        rejectMessage: "Accept the challenge first",
+      };
+    }
+  }
+
+  // SPECTATOR: Watching is requested with { role: "spectator" } in the join metadata
+  if (metadata && metadata.role === "spectator" && !existingPlayer) {
+    if (state.isPrivate && (!state.privateCode || normalizePrivateMatchCode(metadata.code) !== state.privateCode)) {
+      return {
+        state: state,
+        accept: false,
+        rejectMessage: "Invalid or expired join code",
+      };
+    }
+
+    var spectatorCount = Object.keys(state.spectators).length + Object.keys(state.pendingSpectators).length;
+    if (spectatorCount >= MAX_SPECTATORS) {
+      logger.info("[SPECTATOR] Spectator seats full, rejecting: " + presence.username);
+      return {
+        state: state,
+        accept: false,
+        rejectMessage: "Spectator seats are full",
+      };
+    }
+
+    // matchJoin doesn't get the metadata, so remember this user is joining as a spectator
+    state.pendingSpectators[presence.userId] = true;
+    logger.info("[SPECTATOR] Accepting spectator: " + presence.username);
+    return {
+      state: state,
+      accept: true,
+    };
+  }
+
+  // VALIDATION: Reserved matches (created by the matchmaker) only admit the paired players
+  if (state.reservedFor && state.reservedFor.indexOf(presence.userId) === -1) {
+    logger.info("[MATCHMAKER] Rejecting player not paired into this match: " + presence.username);
+    return {
+      state: state,
+      accept: false,
+      rejectMessage: "Match is reserved for other players",
+    };
+  }
+
+  // VALIDATION: Private matches need the join code in the join metadata
+  if (state.isPrivate && (!state.privateCode || !metadata || normalizePrivateMatchCode(metadata.code) !== state.privateCode)) {
+    logger.info("[PRIVATE] Rejecting player without a valid code: " + presence.username);
+    return {
+      state: state,
+      accept: false,
+      rejectMessage: "Invalid or expired join code",
+    };
+  }
+
   // VALIDATION: Only allow 2 players max
   var playerCount = Object.keys(state.players).length;
 
@@ -85,6 +245,30 @@ let matchJoin: nkruntime.MatchJoinFunction<GameState> = function (
   for (var i = 0; i < presences.length; i++) {
     var presence = presences[i];
 
+    // SPECTATOR: Tracked separately from state.players - no seat, no symbol
+    if (state.pendingSpectators[presence.userId]) {
+      delete state.pendingSpectators[presence.userId];
+      state.spectators[presence.userId] = {
+        username: presence.username ? presence.username.trim() : "Unknown",
+        joinedAt: Date.now(),
+      };
+      state.spectatorPresences[presence.userId] = presence;
+      logger.info("[SPECTATOR] " + presence.username + " is now watching");
+      continue;
+    }
+
+    state.playerPresences[presence.userId] = presence;
+
+    // RECONNECT: Returning player keeps their original seat and symbol
+    var existingPlayer = state.players[presence.userId];
+    if (existingPlayer && !existingPlayer.connected && state.status === "active") {
+      existingPlayer.connected = true;
+      existingPlayer.reconnectDeadline = null;
+      logger.info("[RECONNECT] Player " + existingPlayer.username + " reconnected as " + existingPlayer.symbol);
+      resumeClockIfAllConnected(state, logger);
+      continue;
+    }
+
     // Normalize username (trim whitespace)
     var normalizedUsername = presence.username ? presence.username.trim() : "Unknown";
 
@@ -96,7 +280,9 @@ let matchJoin: nkruntime.MatchJoinFunction<GameState> = function (
       username: normalizedUsername,
       symbol: symbol,
       connected: true,
+      reconnectDeadline: null,
     };
+    state.series.wins[presence.userId] = 0;
 
     logger.info(
       "Player " + normalizedUsername + " joined as " + symbol +
@@ -104,35 +290,31 @@ let matchJoin: nkruntime.MatchJoinFunction<GameState> = function (
     );
   }
 
-  // Start game when both players are present
-  if (Object.keys(state.players).length === 2) {
-    state.status = "active";
+  // BOT: "vs bot" match - the bot takes the second seat as soon as the player is in
+  if (state.status === "waiting" && state.bot && !state.players[BOT_USER_ID] && Object.keys(state.players).length === 1) {
+    seatBot(state, state.bot.difficulty, logger);
+  }
 
-    // X goes first - find the player with symbol "X"
-    var playerIds = Object.keys(state.players);
-    for (var j = 0; j < playerIds.length; j++) {
-      if (state.players[playerIds[j]].symbol === "X") {
-        state.currentTurn = playerIds[j];
-        break;
-      }
-    }
+  // Start game when both players are present (and it hasn't started yet)
+  if (state.status === "waiting" && Object.keys(state.players).length === 2) {
+    startGame(state, nk, logger);
+  }
 
-    // Start the turn timer only for timed mode
-    if (state.mode === "timed") {
-      state.turnStartTimestamp = Date.now();
-      logger.info("<� Game started! X goes first. Turn timer started (30s per turn).");
-    } else {
-      state.turnStartTimestamp = null;
-      logger.info("<� Game started! X goes first. Classic mode (no timer).");
-    }
+  // Someone is here - the match isn't empty any more
+  state.emptySince = null;
 
-    // Close the match - no longer accepting players
-    dispatcher.matchLabelUpdate(JSON.stringify({ open: 0, mode: state.mode }));
-  }
+  // Keep the label (open flag, players, spectator count) up to date
+  syncMatchLabel(dispatcher, state);
 
   // Broadcast updated state to all players
   broadcastState(dispatcher, state);
 
+  // Newcomers have nothing to apply deltas to - give them the full state and the chat so far
+  for (var p = 0; p < presences.length; p++) {
+    sendFullState(dispatcher, state, presences[p], logger);
+    sendChatHistory(dispatcher, state, presences[p]);
+  }
+
   return { state: state };
 };
 
@@ -152,9 +334,36 @@ let matchLoop: nkruntime.MatchLoopFunction<GameState> = function (
   for (var i = 0; i < messages.length; i++) {
     var message = messages[i];
 
+    // SPECTATOR: Only seated players may send moves, chat, voice signaling or rematch requests
+    // (anyone in the match may ask for a resync)
+    if (!state.players[message.sender.userId] && message.opCode !== OpCode.REQUEST_SYNC) {
+      logger.warn("[SPECTATOR] Ignoring opCode " + message.opCode + " from non-player " + message.sender.username);
+      continue;
+    }
+
+    // Per-user flood limit across every opcode (moves still get an answer so the client can roll back)
+    if (isRateLimited(state, "message", message.sender.userId, CLIENT_MESSAGE_RATE_LIMIT, CLIENT_MESSAGE_RATE_WINDOW_MS)) {
+      logger.warn("[ABUSE] Rate limit hit by " + message.sender.username + ", dropping opCode " + message.opCode);
+      if (message.opCode === OpCode.MAKE_MOVE) {
+        sendMoveRejection(dispatcher, message.sender, "rate_limited", null, null);
+      }
+      continue;
+    }
+
+    // Every opcode has a strict payload schema - anything else is dropped here
+    var parsed = parseClientMessage(nk, message);
+    if (parsed.error) {
+      logger.warn("[MESSAGE] Dropping opCode " + message.opCode + " from " + message.sender.username + ": " + parsed.error);
+
+      // A move always gets an answer so the client can undo its optimistic update
+      if (message.opCode === OpCode.MAKE_MOVE) {
+        sendMoveRejection(dispatcher, message.sender, "malformed_payload", getMoveId(parsed.data), parsed.data ? parsed.data.position : null);
+      }
+      continue;
+    }
+    var data = parsed.data;
+
     try {
-      // Parse message data
-      var data = JSON.parse(nk.binaryToString(message.data));
 
       // Route based on operation code (like Express routing)
       switch (message.opCode) {
@@ -163,32 +372,66 @@ let matchLoop: nkruntime.MatchLoopFunction<GameState> = function (
             "=� Move received from " + message.sender.username +
             ": position " + data.position
           );
-          // SERVER-AUTHORITATIVE: Validate and apply move
+          // Tell the sender why their move won't be applied (handleMove re-checks and logs it)
+          var rejectReason = validateMove(state, message.sender.userId, data.position, message.receiveTimeMs);
+          if (rejectReason) {
+            sendMoveRejection(dispatcher, message.sender, rejectReason, getMoveId(data), data.position);
+          }
+
+          // SERVER-AUTHORITATIVE: Validate and apply move (timed from when it was received)
           state = handleMove(
             state,
             message.sender.userId,
             data.position,
             dispatcher,
             logger,
-            nk
+            nk,
+            message.receiveTimeMs
           );
           break;
 
-        // WebRTC Voice Chat Signaling - Broadcast to all (client filters own messages)
+        // WebRTC Voice Chat Signaling - Relayed only to the opponent, stamped with the sender
         case OpCode.WEBRTC_OFFER:
-          logger.info("[VOICE] WebRTC offer received from " + message.sender.username + ", broadcasting to all");
-          // Broadcast to everyone - client will filter out own messages
-          dispatcher.broadcastMessage(OpCode.WEBRTC_OFFER, message.data);
+        case OpCode.WEBRTC_ANSWER:
+        case OpCode.WEBRTC_ICE_CANDIDATE:
+          relayVoiceSignal(state, message.opCode, message.sender, data, dispatcher, logger);
           break;
 
-        case OpCode.WEBRTC_ANSWER:
-          logger.info("[VOICE] WebRTC answer received from " + message.sender.username + ", broadcasting to all");
-          dispatcher.broadcastMessage(OpCode.WEBRTC_ANSWER, message.data);
+        // Voice settings - the opponent sees them in state.voice
+        case OpCode.VOICE_OPT_IN:
+        case OpCode.VOICE_OPT_OUT:
+        case OpCode.VOICE_MUTE:
+          state = handleVoiceSettings(state, message.opCode, message.sender.userId, data, dispatcher, logger);
           break;
 
-        case OpCode.WEBRTC_ICE_CANDIDATE:
-          logger.info("[VOICE] ICE candidate received from " + message.sender.username + ", broadcasting to all");
-          dispatcher.broadcastMessage(OpCode.WEBRTC_ICE_CANDIDATE, message.data);
+        // Rematch - only handled once the game is completed
+        case OpCode.REMATCH_REQUEST:
+          state = handleRematchRequest(state, message.sender.userId, dispatcher, logger);
+          break;
+
+        case OpCode.REMATCH_ACCEPT:
+          state = handleRematchAccept(state, message.sender.userId, dispatcher, logger);
+          break;
+
+        case OpCode.REMATCH_DECLINE:
+          state = handleRematchDecline(state, message.sender.userId, dispatcher, logger);
+          break;
+
+        // Client missed or got an out-of-order update - answer only the requester
+        case OpCode.REQUEST_SYNC:
+          logger.info("[SYNC] " + message.sender.username + " requested a full sync (has version " + data.version + ", current " + state.version + ")");
+          sendFullState(dispatcher, state, message.sender, logger);
+          sendChatHistory(dispatcher, state, message.sender);
+          break;
+
+        // Text chat and quick reactions (spectators can read but not send)
+        case OpCode.CHAT_MESSAGE:
+        case OpCode.CHAT_REACTION:
+          state = handleChatMessage(state, message.opCode, message.sender, data, dispatcher, logger);
+          break;
+
+        case OpCode.CHAT_MUTE:
+          state = handleChatMute(state, message.sender.userId, data, logger);
           break;
 
         default:
@@ -199,35 +442,89 @@ let matchLoop: nkruntime.MatchLoopFunction<GameState> = function (
     }
   }
 
-  // Check for turn timeout (30 seconds) - only for timed mode
-  if (state.mode === "timed" && state.status === "active" && state.turnStartTimestamp !== null && state.currentTurn !== null) {
-    var currentTime = Date.now();
-    var timeElapsed = currentTime - state.turnStartTimestamp;
-    var TIMEOUT_MS = 30000; // 30 seconds
+  // Widen the accepted rating range the longer a public match waits for an opponent
+  if (state.status === "waiting" && isPublicMatch(state)) {
+    var ratingWindow = getRatingWindow(Date.now() - state.createdAt);
+    if (ratingWindow !== state.ratingWindow) {
+      state.ratingWindow = ratingWindow;
+      logger.info("[RATING] Waiting match now accepts ratings within +/-" + ratingWindow);
+    }
+  }
 
-    if (timeElapsed >= TIMEOUT_MS) {
-      logger.info("[TIMEOUT] Player " + state.currentTurn + " exceeded 30 seconds. Opponent wins!");
+  // BOT: Nobody joined this public match in time - let a bot take the empty seat
+  if (state.status === "waiting" && isPublicMatch(state) && !state.bot && state.botFillMs > 0 &&
+    Object.keys(state.players).length === 1 && Date.now() - state.createdAt >= state.botFillMs) {
+    logger.info("[BOT] No opponent after " + (state.botFillMs / 1000) + "s, filling seat with a bot");
+    seatBot(state, state.botFillDifficulty, logger);
+    startGame(state, nk, logger);
+    broadcastState(dispatcher, state);
+  }
 
-      // Find the opponent (the player who is NOT currentTurn)
-      var playerIds = Object.keys(state.players);
-      for (var k = 0; k < playerIds.length; k++) {
-        if (playerIds[k] !== state.currentTurn) {
-          // Opponent wins by timeout
-          state.winner = playerIds[k];
-          state.status = "completed";
-          logger.info("<� Player " + playerIds[k] + " (" + state.players[playerIds[k]].username + ") wins by timeout!");
-
-          // Update leaderboard
-          updateLeaderboard(nk, state, logger);
-
-          // Broadcast final state
-          broadcastState(dispatcher, state);
-          break;
-        }
+  // BOT: Play the bot's turn (after its thinking delay) and answer rematch requests
+  state = runBotTurn(state, dispatcher, logger, nk);
+  if (state.bot && state.rematch && state.rematch.status === "pending" && state.rematch.requestedBy !== BOT_USER_ID) {
+    state = handleRematchAccept(state, BOT_USER_ID, dispatcher, logger);
+  }
+
+  // Send spectators the delayed state updates that are now due
+  flushSpectatorQueue(dispatcher, state);
+
+  // CHALLENGE: Declined, or not taken up in time - close the match
+  if (state.challenge && state.status === "waiting" && Date.now() >= state.challenge.expiresAt) {
+    logger.info("[CHALLENGE] Challenge " + state.challenge.challengeId + " closed before the game started");
+    closeMatch(state, dispatcher, nk, "challenge_expired", logger);
+    return null;
+  }
+
+  // TOURNAMENT: No-shows forfeit, drawn elimination games are replayed
+  // Nobody showed up at all - the bracket has the result, end the match
+  if (!runTournamentMatch(state, dispatcher, nk, logger)) {
+    closeMatch(state, dispatcher, nk, "no_show", logger);
+    return null;
+  }
+
+  // Expire unanswered rematch requests
+  if (state.rematch && state.rematch.status === "pending" && Date.now() >= state.rematch.expiresAt) {
+    state.rematch.status = "expired";
+    logger.info("[REMATCH] Rematch request from " + state.rematch.requestedBy + " expired");
+    broadcastState(dispatcher, state);
+  }
+
+  // Check for expired reconnection windows - forfeit happens only once the grace period runs out
+  if (state.status === "active") {
+    var now = Date.now();
+    var seatIds = Object.keys(state.players);
+    for (var r = 0; r < seatIds.length; r++) {
+      var seat = state.players[seatIds[r]];
+      if (!seat.connected && seat.reconnectDeadline !== null && now >= seat.reconnectDeadline) {
+        logger.info("[RECONNECT] Player " + seat.username + " did not reconnect in time");
+        forfeitPlayer(state, seatIds[r], nk, logger);
+        broadcastState(dispatcher, state);
+        break;
       }
     }
   }
 
+  // Check for flag fall - only with a time control, and not while the clock is paused
+  if (state.timeControl && state.status === "active" && state.currentTurn !== null && state.clockPausedAt === null) {
+    if (isOutOfTime(state, state.currentTurn, Date.now())) {
+      handleTimeout(state, state.currentTurn, nk, logger);
+
+      // Broadcast final state
+      broadcastState(dispatcher, state);
+    }
+  }
+
+  // LIFECYCLE: Close empty, abandoned and finished matches (returning null ends the match)
+  var closeReason = getMatchCloseReason(state, Date.now());
+  if (closeReason) {
+    closeMatch(state, dispatcher, nk, closeReason, logger);
+    return null;
+  }
+
+  // Status or rating window may have changed this tick
+  syncMatchLabel(dispatcher, state);
+
   return { state: state };
 };
 
@@ -243,6 +540,16 @@ let matchLeave: nkruntime.MatchLeaveFunction<GameState> = function (
 ) {
   for (var i = 0; i < presences.length; i++) {
     var presence = presences[i];
+
+    // SPECTATOR: Just stop sending them updates
+    if (state.spectators[presence.userId]) {
+      delete state.spectators[presence.userId];
+      delete state.spectatorPresences[presence.userId];
+      logger.info("[SPECTATOR] " + presence.username + " stopped watching");
+      continue;
+    }
+
+    delete state.playerPresences[presence.userId];
     logger.info("=K Player " + presence.username + " left the match");
 
     // EDGE CASE FIX: If game is still waiting for players, completely remove them
@@ -250,33 +557,60 @@ let matchLeave: nkruntime.MatchLeaveFunction<GameState> = function (
     if (state.status === "waiting") {
       if (state.players[presence.userId]) {
         delete state.players[presence.userId];
+        delete state.series.wins[presence.userId];
+        delete state.voice[presence.userId];
         logger.info("? Player removed from waiting match (cancelled matchmaking)");
       }
+
+      // Private match abandoned before it started - nobody should be able to use the code
+      if (state.privateCode && Object.keys(state.players).length === 0) {
+        expirePrivateMatchCode(nk, state.privateCode, logger);
+        state.privateCode = null;
+      }
     } else {
       // Game is active - mark as disconnected (keep for leaderboard)
-      if (state.players[presence.userId]) {
-        state.players[presence.userId].connected = false;
+      var leavingPlayer = state.players[presence.userId];
+      if (!leavingPlayer) {
+        continue;
       }
+      leavingPlayer.connected = false;
 
-      // If game is active and someone left, other player wins by forfeit
+      // If game is active and someone left, give them a grace window to come back
       if (state.status === "active") {
-        var playerIds = Object.keys(state.players);
-        for (var j = 0; j < playerIds.length; j++) {
-          var playerId = playerIds[j];
-          if (playerId !== presence.userId && state.players[playerId].connected) {
-            state.status = "completed";
-            state.winner = playerId;
-            logger.info("<� Player " + playerId + " wins by forfeit");
-
-            // Update leaderboard
-            updateLeaderboard(nk, state, logger);
-            break;
-          }
+        if (state.reconnectGraceMs <= 0) {
+          // Grace disabled - other player wins by forfeit right away
+          forfeitPlayer(state, presence.userId, nk, logger);
+          continue;
         }
+
+        var leftAt = Date.now();
+        leavingPlayer.reconnectDeadline = leftAt + state.reconnectGraceMs;
+        logger.info(
+          "[RECONNECT] Waiting up to " + (state.reconnectGraceMs / 1000) +
+          "s for " + presence.username + " to reconnect"
+        );
+
+        // Pause the turn clock if the policy says so (only matters with a time control)
+        if (state.timeControl && state.clockPolicy === "pause" && state.clockPausedAt === null) {
+          state.clockPausedAt = leftAt;
+          logger.info("[RECONNECT] Turn clock paused");
+        }
+      } else if (state.rematch && state.rematch.status === "pending") {
+        // Game is over - nobody can accept a rematch with a player who already left
+        state.rematch.status = "declined";
+        logger.info("[REMATCH] Pending rematch cancelled, " + presence.username + " left");
       }
     }
   }
 
+  // Last one out - matchLoop closes the match (and the label stops advertising it right away)
+  if (Object.keys(state.playerPresences).length === 0 && Object.keys(state.spectatorPresences).length === 0) {
+    state.emptySince = state.emptySince || Date.now();
+  }
+
+  // Keep the label (open flag, players, spectator count) up to date
+  syncMatchLabel(dispatcher, state);
+
   // Broadcast updated state
   broadcastState(dispatcher, state);
 
@@ -293,11 +627,17 @@ let matchTerminate: nkruntime.MatchTerminateFunction<GameState> = function (
   state: GameState,
   graceSeconds: number
 ) {
-  logger.info("Match terminated");
+  logger.info("Match terminated (server shutting down in " + graceSeconds + "s)");
+
+  // Tell everyone still here that the server is going away
+  closeMatch(state, dispatcher, nk, "server_shutdown", logger);
+
   return { state: state };
 };
 
-// 7. matchSignal - Handle external signals (not used for tic-tac-toe, but required by Nakama)
+// 7. matchSignal - Handle external signals (sent with nk.matchSignal from RPCs)
+// Payload is JSON { type: ... }; the returned data goes back to the caller
+// Challenge signals come from challenge.ts, admin_* signals from admin.ts, abandon_if_empty from find_match
 let matchSignal: nkruntime.MatchSignalFunction<GameState> = function (
   ctx: nkruntime.Context,
   logger: nkruntime.Logger,
@@ -308,55 +648,146 @@ let matchSignal: nkruntime.MatchSignalFunction<GameState> = function (
   data: string
 ) {
   logger.info("Match signal received");
-  return { state: state };
+
+  var signal: { [field: string]: any };
+  try {
+    signal = JSON.parse(data || "{}");
+  } catch (err) {
+    logger.warn("Ignoring malformed match signal");
+    return { state: state, data: "error" };
+  }
+
+  var reply = handleChallengeSignal(state, signal, logger);
+  if (reply === null) {
+    reply = handleAdminSignal(state, signal, dispatcher, nk, logger);
+  }
+  if (reply === null && signal.type === "abandon_if_empty") {
+    reply = abandonIfEmpty(state, dispatcher, logger);
+  }
+  return { state: state, data: reply !== null ? reply : "ignored" };
 };
 
 // ==================== HELPER FUNCTIONS ====================
 
-// Handle player move - THE SERVER-AUTHORITATIVE VALIDATION!
-// This is WHERE we prevent cheating!
-function handleMove(
+// Both seats are filled - start the first game
+function startGame(state: GameState, nk: nkruntime.Nakama, logger: nkruntime.Logger): void {
+  state.status = "active";
+  state.gameStartedAt = Date.now();
+
+  // X goes first - find the player with symbol "X"
+  var playerIds = Object.keys(state.players);
+  for (var j = 0; j < playerIds.length; j++) {
+    if (state.players[playerIds[j]].symbol === "X") {
+      state.currentTurn = playerIds[j];
+      break;
+    }
+  }
+
+  // Start the clock only when the game has a time control
+  initClock(state);
+  if (state.timeControl) {
+    state.turnStartTimestamp = Date.now();
+    logger.info("<� Game started! X goes first. Clock started (" + state.timeControl.id + ").");
+  } else {
+    state.turnStartTimestamp = null;
+    logger.info("<� Game started! X goes first. Classic mode (no timer).");
+  }
+
+  // Close the match - no longer accepting players (label is synced by the caller)
+
+  // The join code has done its job
+  if (state.privateCode) {
+    expirePrivateMatchCode(nk, state.privateCode, logger);
+    state.privateCode = null;
+  }
+}
+
+// Check whether a move can be applied right now, returns the reject reason (null if it's legal)
+// No side effects, so matchLoop can tell the sender why before handleMove rejects it
+function validateMove(
   state: GameState,
   userId: string,
-  position: number,
-  dispatcher: nkruntime.MatchDispatcher,
-  logger: nkruntime.Logger,
-  nk: nkruntime.Nakama
-): GameState {
+  position: any,
+  moveTime: number
+): MoveRejectReason | null {
   // L VALIDATION 1: Game must be active
   if (state.status !== "active") {
-    logger.warn("L Move rejected: game not active");
-    return state;
+    return "game_not_active";
   }
 
   // L VALIDATION 2: Must be player's turn
   if (state.currentTurn !== userId) {
-    logger.warn("L Move rejected: not " + userId + "'s turn");
-    return state;
+    return "not_your_turn";
   }
 
-  // L VALIDATION 3: Position must be valid (0-8)
-  if (position < 0 || position > 8) {
-    logger.warn("L Move rejected: invalid position " + position);
-    return state;
+  // L VALIDATION 3: Player must still have time left (even if no tick has flagged them yet)
+  if (state.timeControl && state.clockPausedAt === null && isOutOfTime(state, userId, moveTime)) {
+    return "out_of_time";
   }
 
-  // L VALIDATION 4: Cell must be empty
+  // L VALIDATION 4: Position must be a valid cell (0 to width * height - 1)
+  if (typeof position !== "number" || position % 1 !== 0) {
+    return "malformed_payload";
+  }
+  if (position < 0 || position >= state.board.length) {
+    return "out_of_range";
+  }
+
+  // L VALIDATION 5: Cell must be empty
   if (state.board[position] !== null) {
-    logger.warn("L Move rejected: cell " + position + " already occupied");
+    return "cell_occupied";
+  }
+
+  // L VALIDATION 6 (ultimate): Must play in the local board the opponent sent you to
+  if (state.ultimate && !isUltimateMoveAllowed(state.ultimate, position)) {
+    return "wrong_board";
+  }
+
+  return null;
+}
+
+// Handle player move - THE SERVER-AUTHORITATIVE VALIDATION!
+// This is WHERE we prevent cheating!
+function handleMove(
+  state: GameState,
+  userId: string,
+  position: number,
+  dispatcher: nkruntime.MatchDispatcher,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  receivedAt?: number
+): GameState {
+  // Time is judged from when the move reached the server, not when the tick got to it
+  var moveTime = receivedAt || Date.now();
+
+  var rejectReason = validateMove(state, userId, position, moveTime);
+  if (rejectReason) {
+    logger.warn("L Move from " + userId + " at position " + position + " rejected: " + rejectReason);
+
+    // Running out of time loses the game, not just the move
+    if (rejectReason === "out_of_time") {
+      handleTimeout(state, userId, nk, logger);
+      broadcastState(dispatcher, state);
+    }
     return state;
   }
 
-  //  ALL VALIDATIONS PASSED - Apply the move
+  //  ALL VALIDATIONS PASSED - Apply the move and charge the time it took
+  var remainingMs = getRemainingMs(state, userId, moveTime);
+  chargeMove(state, userId, moveTime);
   var symbol = state.players[userId].symbol;
   state.board[position] = symbol;
+  state.moves.push({ userId: userId, symbol: symbol, position: position, timestamp: Date.now(), remainingMs: remainingMs });
   logger.info(" Move applied: " + symbol + " at position " + position);
 
-  // Check for winner or draw
-  var winner = checkWinner(state.board);
+  // Check for winner or draw (ultimate resolves the local board first, then the meta board)
+  var winner = state.ultimate
+    ? applyUltimateMove(state.board, state.ultimate, position)
+    : checkWinner(state.board, state.boardWidth, state.boardHeight, state.winLength, position);
 
   if (winner) {
     state.status = "completed";
+    state.endReason = winner === "draw" ? "draw" : "line";
 
     if (winner === "draw") {
       state.winner = "draw";
@@ -373,8 +804,8 @@ function handleMove(
       }
     }
 
-    // Update leaderboard
-    updateLeaderboard(nk, state, logger);
+    // Update series score and leaderboard
+    handleGameCompleted(nk, state, logger);
   } else {
     // Switch turn to other player
     var players = Object.keys(state.players);
@@ -382,10 +813,10 @@ function handleMove(
       if (players[j] !== userId) {
         state.currentTurn = players[j];
 
-        // Reset timer only for timed mode
-        if (state.mode === "timed") {
+        // Start the opponent's clock only when the game has a time control
+        if (state.timeControl) {
           state.turnStartTimestamp = Date.now();
-          logger.info("= Turn switched to " + state.currentTurn + ". Turn timer reset.");
+          logger.info("= Turn switched to " + state.currentTurn + ". Clock running.");
         } else {
           logger.info("= Turn switched to " + state.currentTurn + ".");
         }
@@ -401,28 +832,25 @@ function handleMove(
 }
 
 // Check if there's a winner
-function checkWinner(board: (string | null)[]): string | null {
-  // All possible winning combinations
-  var winningLines = [
-    [0, 1, 2], // Top row
-    [3, 4, 5], // Middle row
-    [6, 7, 8], // Bottom row
-    [0, 3, 6], // Left column
-    [1, 4, 7], // Middle column
-    [2, 5, 8], // Right column
-    [0, 4, 8], // Diagonal \
-    [2, 4, 6], // Diagonal /
-  ];
-
-  // Check each winning line
-  for (var i = 0; i < winningLines.length; i++) {
-    var line = winningLines[i];
-    var a = line[0];
-    var b = line[1];
-    var c = line[2];
-
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return board[a]; // Return "X" or "O"
+// With lastPosition we only look at the lines through the move just played,
+// so large boards (15x15 Gomoku) don't re-check every line on every move.
+// Pass null to scan the whole board.
+function checkWinner(
+  board: (string | null)[],
+  width: number,
+  height: number,
+  winLength: number,
+  lastPosition: number | null
+): string | null {
+  if (lastPosition !== null) {
+    if (board[lastPosition] && hasLineThrough(board, width, height, winLength, lastPosition)) {
+      return board[lastPosition]; // Return "X" or "O"
+    }
+  } else {
+    for (var cell = 0; cell < board.length; cell++) {
+      if (board[cell] && hasLineThrough(board, width, height, winLength, cell)) {
+        return board[cell];
+      }
     }
   }
 
@@ -443,10 +871,621 @@ function checkWinner(board: (string | null)[]): string | null {
   return null;
 }
 
-// Broadcast state to all connected players
+// Does the mark at this cell belong to winLength-in-a-row in any direction?
+function hasLineThrough(
+  board: (string | null)[],
+  width: number,
+  height: number,
+  winLength: number,
+  position: number
+): boolean {
+  var symbol = board[position];
+  var row = Math.floor(position / width);
+  var col = position % width;
+
+  // Horizontal, vertical, diagonal \ and diagonal /
+  var directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+  for (var d = 0; d < directions.length; d++) {
+    var dRow = directions[d][0];
+    var dCol = directions[d][1];
+    var count = 1;
+
+    // Count matching marks both ways from the cell
+    for (var sign = -1; sign <= 1; sign += 2) {
+      var r = row + sign * dRow;
+      var c = col + sign * dCol;
+      while (r >= 0 && r < height && c >= 0 && c < width && board[r * width + c] === symbol) {
+        count++;
+        r += sign * dRow;
+        c += sign * dCol;
+      }
+    }
+
+    if (count >= winLength) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Fresh meta board for Ultimate Tic-Tac-Toe - every local board open, first move anywhere
+function createUltimateState(): UltimateState {
+  return {
+    metaBoard: createEmptyBoard(ULTIMATE_LOCAL_BOARDS),
+    nextBoard: null,
+  };
+}
+
+// Ultimate rule: the move must be in the required local board (or any open one when free)
+function isUltimateMoveAllowed(ultimate: UltimateState, position: number): boolean {
+  var localBoard = Math.floor(position / ULTIMATE_LOCAL_CELLS);
+
+  // Decided local boards (won or drawn) are closed for good
+  if (ultimate.metaBoard[localBoard] !== null) {
+    return false;
+  }
+
+  return ultimate.nextBoard === null || ultimate.nextBoard === localBoard;
+}
+
+// Resolve an ultimate move that has already been placed on the board
+// Returns "X"/"O" for a meta board win, "draw", or null if the game goes on
+function applyUltimateMove(board: (string | null)[], ultimate: UltimateState, position: number): string | null {
+  var localBoard = Math.floor(position / ULTIMATE_LOCAL_CELLS);
+  var localCell = position % ULTIMATE_LOCAL_CELLS;
+  var start = localBoard * ULTIMATE_LOCAL_CELLS;
+
+  // Local board result uses the same 3x3 logic as classic tic-tac-toe
+  var localResult = checkWinner(board.slice(start, start + ULTIMATE_LOCAL_CELLS), 3, 3, 3, localCell);
+  if (localResult) {
+    ultimate.metaBoard[localBoard] = localResult;
+  }
+
+  // The cell played decides where the opponent goes next - anywhere if that board is decided
+  ultimate.nextBoard = ultimate.metaBoard[localCell] === null ? localCell : null;
+
+  // A won local board may complete a line on the meta board
+  if (localResult === "X" || localResult === "O") {
+    if (hasLineThrough(ultimate.metaBoard, 3, 3, 3, localBoard)) {
+      return localResult;
+    }
+  }
+
+  // Every local board decided without a meta line - the game is a draw
+  for (var i = 0; i < ultimate.metaBoard.length; i++) {
+    if (ultimate.metaBoard[i] === null) {
+      return null;
+    }
+  }
+  return "draw";
+}
+
+// Cells on the whole board - ultimate is 9 local 3x3 boards, so width x height alone isn't enough
+function getBoardCellCount(mode: GameMode, boardWidth: number, boardHeight: number): number {
+  return mode === "ultimate" ? ULTIMATE_LOCAL_BOARDS * ULTIMATE_LOCAL_CELLS : boardWidth * boardHeight;
+}
+
+// Fresh board with every cell empty
+function createEmptyBoard(cells: number): (string | null)[] {
+  var board: (string | null)[] = [];
+  for (var i = 0; i < cells; i++) {
+    board.push(null);
+  }
+  return board;
+}
+
+// Broadcast state to all connected players (and spectators, possibly delayed)
+// Sends only what changed since the last update (STATE_DELTA) unless the full state is smaller
 function broadcastState(dispatcher: nkruntime.MatchDispatcher, state: GameState): void {
-  var stateJson = JSON.stringify(state);
-  dispatcher.broadcastMessage(OpCode.STATE_UPDATE, stateJson);
+  // Every update carries both players' remaining time and a new version
+  updateClockSnapshot(state);
+  state.version++;
+
+  var stateJson = serializeState(state);
+  var opCode = OpCode.STATE_UPDATE;
+  var data = stateJson;
+  if (state.snapshot) {
+    var deltaJson = JSON.stringify(buildStateDelta(state.snapshot, stateJson));
+    if (deltaJson.length < stateJson.length) {
+      opCode = OpCode.STATE_DELTA;
+      data = deltaJson;
+    }
+  }
+  state.snapshot = stateJson;
+
+  // No delay - everyone in the match gets the same update right away
+  if (state.spectatorDelayMs <= 0) {
+    dispatcher.broadcastMessage(opCode, data);
+    state.spectatorSnapshot = stateJson;
+    return;
+  }
+
+  var players = getPlayerPresences(state);
+  if (players.length > 0) {
+    dispatcher.broadcastMessage(opCode, data, players);
+  }
+
+  // Spectators see the board a little behind the players (competitive play)
+  state.spectatorQueue.push({ sendAt: Date.now() + state.spectatorDelayMs, opCode: opCode, data: data, snapshot: stateJson });
+}
+
+// Send a non-state message (chat) to spectators - through the delay queue, so it doesn't arrive before
+// the moves it talks about
+function sendToSpectators(dispatcher: nkruntime.MatchDispatcher, state: GameState, opCode: number, data: string): void {
+  if (state.spectatorDelayMs > 0) {
+    state.spectatorQueue.push({ sendAt: Date.now() + state.spectatorDelayMs, opCode: opCode, data: data, snapshot: null });
+    return;
+  }
+
+  var spectators: nkruntime.Presence[] = [];
+  for (var userId in state.spectatorPresences) {
+    spectators.push(state.spectatorPresences[userId]);
+  }
+  if (spectators.length > 0) {
+    dispatcher.broadcastMessage(opCode, data, spectators);
+  }
+}
+
+// Send every delayed spectator update that is due
+function flushSpectatorQueue(dispatcher: nkruntime.MatchDispatcher, state: GameState): void {
+  var now = Date.now();
+  var spectators: nkruntime.Presence[] = [];
+  for (var userId in state.spectatorPresences) {
+    spectators.push(state.spectatorPresences[userId]);
+  }
+
+  while (state.spectatorQueue.length > 0 && state.spectatorQueue[0].sendAt <= now) {
+    var update = state.spectatorQueue.shift() as DelayedBroadcast;
+
+    // Chat goes out as it was sent and doesn't move the spectators' state version
+    if (update.snapshot === null) {
+      if (spectators.length > 0) {
+        dispatcher.broadcastMessage(update.opCode, update.data, spectators);
+      }
+      continue;
+    }
+
+    if (spectators.length > 0) {
+      // Nobody has a delayed base version yet - the first update has to be the full state
+      if (state.spectatorSnapshot) {
+        dispatcher.broadcastMessage(update.opCode, update.data, spectators);
+      } else {
+        dispatcher.broadcastMessage(OpCode.STATE_UPDATE, update.snapshot, spectators);
+      }
+    }
+    state.spectatorSnapshot = update.snapshot;
+  }
+}
+
+// Serialize the state for clients, leaving out server-only bookkeeping
+function serializeState(state: GameState): string {
+  return JSON.stringify(state, function (key: string, value: any) {
+    return SERVER_ONLY_STATE_KEYS.indexOf(key) === -1 ? value : undefined;
+  });
+}
+
+// Presences of the seated players who are currently connected
+function getPlayerPresences(state: GameState): nkruntime.Presence[] {
+  var presences: nkruntime.Presence[] = [];
+  for (var userId in state.playerPresences) {
+    presences.push(state.playerPresences[userId]);
+  }
+  return presences;
+}
+
+// Build the match label used by find_match and list_live_matches queries
+function buildMatchLabel(state: GameState): string {
+  // Usernames let spectators pick a game to watch
+  var usernames: string[] = [];
+  for (var userId in state.players) {
+    usernames.push(state.players[userId].username);
+  }
+
+  // Only waiting public matches are open - private and reserved ones never are, and neither
+  // is a match its creator already left
+  return JSON.stringify({
+    open: state.status === "waiting" && isPublicMatch(state) && state.emptySince === null ? 1 : 0,
+    status: state.status,
+    mode: state.mode,
+    timed: state.timeControl ? 1 : 0,
+    timeControl: state.timeControl ? state.timeControl.id : null,
+    clockBank: state.timeControl ? state.timeControl.bankMs / 1000 : 0,
+    clockIncrement: state.timeControl ? state.timeControl.incrementMs / 1000 : 0,
+    clockMove: state.timeControl ? state.timeControl.moveMs / 1000 : 0,
+    bestOf: state.series.bestOf,
+    width: state.boardWidth,
+    height: state.boardHeight,
+    winLength: state.winLength,
+    private: state.isPrivate ? 1 : 0,
+    bot: state.bot ? 1 : 0,
+    rating: Math.round(state.hostRating),
+    ratingMin: Math.round(state.hostRating - state.ratingWindow),
+    ratingMax: Math.round(state.hostRating + state.ratingWindow),
+    createdAt: state.createdAt,
+    players: usernames,
+    spectators: Object.keys(state.spectators).length,
+  });
+}
+
+// Push a new label to Nakama only when it actually changed
+function syncMatchLabel(dispatcher: nkruntime.MatchDispatcher, state: GameState): void {
+  var label = buildMatchLabel(state);
+  if (label !== state.label) {
+    state.label = label;
+    dispatcher.matchLabelUpdate(label);
+  }
+}
+
+// Read the spectator broadcast delay from the runtime env
+function getSpectatorDelayMs(ctx: nkruntime.Context): number {
+  var env = ctx.env || {};
+  var delaySeconds = parseInt(env["SPECTATOR_DELAY_SECONDS"], 10);
+  if (isNaN(delaySeconds) || delaySeconds < 0) {
+    delaySeconds = DEFAULT_SPECTATOR_DELAY_SECONDS;
+  }
+  return delaySeconds * 1000;
+}
+
+// Public matches are the only ones find_match may hand out
+function isPublicMatch(state: GameState): boolean {
+  return !state.isPrivate && state.reservedFor === null;
+}
+
+// Read match lifetime settings from the runtime env, falling back to defaults
+function getLifecycleConfig(ctx: nkruntime.Context): { waitingTimeoutMs: number; postGameMs: number } {
+  var env = ctx.env || {};
+
+  var waitingSeconds = parseInt(env["MATCH_WAITING_TIMEOUT_SECONDS"], 10);
+  if (isNaN(waitingSeconds) || waitingSeconds <= 0) {
+    waitingSeconds = DEFAULT_MATCH_WAITING_TIMEOUT_SECONDS;
+  }
+
+  var postGameSeconds = parseInt(env["MATCH_POST_GAME_SECONDS"], 10);
+  if (isNaN(postGameSeconds) || postGameSeconds < 0) {
+    postGameSeconds = DEFAULT_MATCH_POST_GAME_SECONDS;
+  }
+
+  return { waitingTimeoutMs: waitingSeconds * 1000, postGameMs: postGameSeconds * 1000 };
+}
+
+// Should the match close now? Returns why, or null to keep it running
+// Active games are never closed here - disconnects are settled by the reconnect window first
+function getMatchCloseReason(state: GameState, now: number): MatchCloseReason | null {
+  if (state.status === "active") {
+    return null;
+  }
+
+  // Tournament matches run until the bracket has the result (no-shows, replays);
+  // challenges wait for their own expiry
+  if (state.tournament && (!state.tournament.resultReported || state.tournament.replayAt !== null)) {
+    return null;
+  }
+  if (state.challenge && state.status === "waiting") {
+    return null;
+  }
+
+  if (state.emptySince !== null) {
+    return "empty";
+  }
+  if (state.status === "waiting" && now - state.createdAt >= state.waitingTimeoutMs) {
+    return "waiting_timeout";
+  }
+
+  // A pending rematch request keeps the match open until it's answered or expires
+  var rematchPending = state.rematch !== null && state.rematch.status === "pending";
+  if (state.status === "completed" && state.completedAt !== null && !rematchPending &&
+    now - state.completedAt >= state.postGameMs) {
+    return "post_game";
+  }
+
+  return null;
+}
+
+// find_match created this match but settled on an older one - close it unless somebody is already in it
+// Returns "ok" (the next tick closes it as empty) or "in_use"
+function abandonIfEmpty(state: GameState, dispatcher: nkruntime.MatchDispatcher, logger: nkruntime.Logger): string {
+  if (state.status !== "waiting" || Object.keys(state.players).length > 0 || Object.keys(state.playerPresences).length > 0) {
+    return "in_use";
+  }
+
+  // Stop advertising it right away so nobody else is sent here
+  state.emptySince = Date.now();
+  syncMatchLabel(dispatcher, state);
+  logger.info("[LIFECYCLE] Match " + state.matchId + " abandoned by find_match before anyone joined");
+  return "ok";
+}
+
+// Send everyone still connected the final state (with the reason) and release the join code
+// The caller ends the match (matchLoop returns null, matchTerminate is the end anyway)
+function closeMatch(
+  state: GameState,
+  dispatcher: nkruntime.MatchDispatcher,
+  nk: nkruntime.Nakama,
+  reason: MatchCloseReason,
+  logger: nkruntime.Logger
+): void {
+  state.closeReason = reason;
+  logger.info("[LIFECYCLE] Closing match " + state.matchId + " (" + reason + ")");
+
+  // Full state to players and spectators alike - no deltas or spectator delay for the last word
+  updateClockSnapshot(state);
+  state.version++;
+  dispatcher.broadcastMessage(OpCode.STATE_UPDATE, serializeState(state));
+
+  // Don't leave a join code pointing at a match that no longer exists
+  if (state.privateCode) {
+    expirePrivateMatchCode(nk, state.privateCode, logger);
+    state.privateCode = null;
+  }
+}
+
+// Read reconnection settings from the runtime env, falling back to defaults
+function getReconnectConfig(ctx: nkruntime.Context): { graceMs: number; clockPolicy: ReconnectClockPolicy } {
+  var env = ctx.env || {};
+
+  var graceSeconds = parseInt(env["RECONNECT_GRACE_SECONDS"], 10);
+  if (isNaN(graceSeconds) || graceSeconds < 0) {
+    graceSeconds = DEFAULT_RECONNECT_GRACE_SECONDS;
+  }
+
+  var clockPolicy: ReconnectClockPolicy = DEFAULT_RECONNECT_CLOCK_POLICY;
+  if (env["RECONNECT_CLOCK_POLICY"] === "pause" || env["RECONNECT_CLOCK_POLICY"] === "run") {
+    clockPolicy = env["RECONNECT_CLOCK_POLICY"] as ReconnectClockPolicy;
+  }
+
+  return { graceMs: graceSeconds * 1000, clockPolicy: clockPolicy };
+}
+
+// Find the user ID of the other player in the match (null if there isn't one)
+function getOpponentId(state: GameState, userId: string): string | null {
+  var playerIds = Object.keys(state.players);
+  for (var i = 0; i < playerIds.length; i++) {
+    if (playerIds[i] !== userId) {
+      return playerIds[i];
+    }
+  }
+  return null;
+}
+
+// End the game with the given player losing on time
+function handleTimeout(
+  state: GameState,
+  loserId: string,
+  nk: nkruntime.Nakama,
+  logger: nkruntime.Logger
+): void {
+  var winnerId = getOpponentId(state, loserId);
+  if (!winnerId) {
+    return;
+  }
+
+  logger.info("[TIMEOUT] Player " + loserId + " ran out of time. Opponent wins!");
+
+  // Opponent wins by timeout
+  state.winner = winnerId;
+  state.status = "completed";
+  state.endReason = "timeout";
+  logger.info("<� Player " + winnerId + " (" + state.players[winnerId].username + ") wins by timeout!");
+
+  // Update series score and leaderboard
+  handleGameCompleted(nk, state, logger);
+}
+
+// End the game with the given player losing by forfeit
+function forfeitPlayer(
+  state: GameState,
+  loserId: string,
+  nk: nkruntime.Nakama,
+  logger: nkruntime.Logger
+): void {
+  var winnerId = getOpponentId(state, loserId);
+  if (!winnerId) {
+    return;
+  }
+
+  // Both seats are gone - nobody earned the win, so end the game without counting it (like an admin void)
+  if (!state.players[winnerId].connected) {
+    state.status = "completed";
+    state.winner = null;
+    state.endReason = "forfeit";
+    state.clockPausedAt = null;
+    logger.info("[RECONNECT] Both players left, game ended without a result");
+
+    // Still a game of the series and in both players' history - handleGameCompleted skips the leaderboards
+    handleGameCompleted(nk, state, logger);
+
+    // The bracket still needs a result - both players lose the pairing
+    var info = state.tournament;
+    if (info && !info.resultReported) {
+      info.resultReported = true;
+      recordTournamentResult(nk, info, state.matchId, null, "forfeit", logger);
+    }
+    return;
+  }
+
+  state.status = "completed";
+  state.winner = winnerId;
+  state.endReason = "forfeit";
+  state.clockPausedAt = null;
+  logger.info("[RECONNECT] Player " + winnerId + " wins by forfeit");
+
+  // Update series score and leaderboard
+  handleGameCompleted(nk, state, logger);
+}
+
+// Restart a paused turn clock once every player is back
+// The paused time is added to the turn start so the player doesn't lose it - only the part after the
+// turn started, since a pause can begin before the turn does (e.g. a move made while the opponent was away)
+function resumeClockIfAllConnected(state: GameState, logger: nkruntime.Logger): void {
+  if (state.clockPausedAt === null) {
+    return;
+  }
+
+  var playerIds = Object.keys(state.players);
+  for (var i = 0; i < playerIds.length; i++) {
+    if (!state.players[playerIds[i]].connected) {
+      return;
+    }
+  }
+
+  if (state.turnStartTimestamp !== null) {
+    state.turnStartTimestamp += Date.now() - Math.max(state.clockPausedAt, state.turnStartTimestamp);
+  }
+  state.clockPausedAt = null;
+  logger.info("[RECONNECT] All players connected, turn clock resumed");
+}
+
+// Handle a rematch request from a player once the game is over
+function handleRematchRequest(
+  state: GameState,
+  userId: string,
+  dispatcher: nkruntime.MatchDispatcher,
+  logger: nkruntime.Logger
+): GameState {
+  if (state.status !== "completed" || !state.players[userId]) {
+    logger.warn("[REMATCH] Request rejected: game not completed or sender not a player");
+    return state;
+  }
+
+  if (state.series.winner !== null) {
+    logger.warn("[REMATCH] Request rejected: series already decided");
+    return state;
+  }
+
+  // Tournament games are scheduled by the bracket
+  if (state.tournament) {
+    logger.warn("[REMATCH] Request rejected: tournament match");
+    return state;
+  }
+
+  // Both players have to still be here to play again
+  var opponentId = getOpponentId(state, userId);
+  if (!opponentId || !state.players[userId].connected || !state.players[opponentId].connected) {
+    logger.warn("[REMATCH] Request rejected: opponent is not connected");
+    return state;
+  }
+
+  if (state.rematch && state.rematch.status === "pending") {
+    // Both players asked at the same time - treat the second request as an accept
+    if (state.rematch.requestedBy !== userId) {
+      return handleRematchAccept(state, userId, dispatcher, logger);
+    }
+    return state;
+  }
+
+  state.rematch = {
+    requestedBy: userId,
+    expiresAt: Date.now() + REMATCH_REQUEST_TIMEOUT_MS,
+    status: "pending",
+  };
+  logger.info("[REMATCH] " + state.players[userId].username + " requested a rematch");
+
+  broadcastState(dispatcher, state);
+  return state;
+}
+
+// Handle the opponent accepting a pending rematch - starts the next game
+function handleRematchAccept(
+  state: GameState,
+  userId: string,
+  dispatcher: nkruntime.MatchDispatcher,
+  logger: nkruntime.Logger
+): GameState {
+  if (!state.rematch || state.rematch.status !== "pending" || state.rematch.requestedBy === userId || !state.players[userId]) {
+    logger.warn("[REMATCH] Accept rejected: no pending request from the opponent");
+    return state;
+  }
+
+  logger.info("[REMATCH] " + state.players[userId].username + " accepted the rematch");
+  startRematch(state, logger);
+
+  broadcastState(dispatcher, state);
+  return state;
+}
+
+// Handle a player declining a rematch (or withdrawing their own request)
+function handleRematchDecline(
+  state: GameState,
+  userId: string,
+  dispatcher: nkruntime.MatchDispatcher,
+  logger: nkruntime.Logger
+): GameState {
+  if (!state.rematch || state.rematch.status !== "pending" || !state.players[userId]) {
+    logger.warn("[REMATCH] Decline ignored: no pending request");
+    return state;
+  }
+
+  state.rematch.status = "declined";
+  logger.info("[REMATCH] " + state.players[userId].username + " declined the rematch");
+
+  broadcastState(dispatcher, state);
+  return state;
+}
+
+// Reset the board for the next game in the series
+// Symbols are swapped so the player who went second last time goes first now
+function startRematch(state: GameState, logger: nkruntime.Logger): void {
+  var playerIds = Object.keys(state.players);
+  for (var i = 0; i < playerIds.length; i++) {
+    var player = state.players[playerIds[i]];
+    player.symbol = player.symbol === "X" ? "O" : "X";
+    player.reconnectDeadline = null;
+    if (player.symbol === "X") {
+      state.currentTurn = playerIds[i];
+    }
+  }
+
+  state.board = createEmptyBoard(getBoardCellCount(state.mode, state.boardWidth, state.boardHeight));
+  state.status = "active";
+  state.winner = null;
+  state.rematch = null;
+  state.clockPausedAt = null;
+  state.moves = [];
+  state.endReason = null;
+  state.completedAt = null;
+  if (state.bot) {
+    state.bot.moveAt = null;
+  }
+  state.gameStartedAt = Date.now();
+  initClock(state);
+  state.turnStartTimestamp = state.timeControl ? Date.now() : null;
+  state.ultimate = state.mode === "ultimate" ? createUltimateState() : null;
+
+  logger.info("[REMATCH] Game " + (state.series.gamesPlayed + 1) + " started, symbols swapped");
+}
+
+// Called once whenever a game ends - updates the series score and the leaderboard
+function handleGameCompleted(
+  nk: nkruntime.Nakama,
+  state: GameState,
+  logger: nkruntime.Logger
+): void {
+  var series = state.series;
+  series.gamesPlayed = series.gamesPlayed + 1;
+  state.completedAt = Date.now();
+
+  if (state.winner === "draw") {
+    series.draws = series.draws + 1;
+  } else if (state.winner) {
+    series.wins[state.winner] = (series.wins[state.winner] || 0) + 1;
+
+    // Series is decided once someone has won more than half of the games
+    if (series.bestOf > 0 && series.wins[state.winner] > series.bestOf / 2) {
+      series.winner = state.winner;
+      logger.info("[SERIES] " + state.winner + " wins the best of " + series.bestOf);
+    }
+  }
+
+  // Every game counts on the leaderboard individually - except games ended without a result
+  // (both players gone, admin void), which only go into the match history
+  if (state.winner) {
+    updateLeaderboard(nk, state, logger);
+  }
+
+  // Keep a permanent record for match history and replays
+  saveMatchRecord(nk, state, logger);
 }
 
 // Update win streaks for a player
@@ -554,57 +1593,110 @@ function updateLeaderboard(
       return;
     }
 
-    // If it's a draw, reset streaks for both players (no wins/losses recorded)
-    if (state.winner === "draw") {
-      logger.info("[LB] Game ended in a draw. Resetting streaks for both players.");
-      for (var d = 0; d < playerIds.length; d++) {
-        updateWinStreaks(nk, playerIds[d], "draw", logger);
+    // Bot games stay off the global boards, streaks and rating - only wins vs the bot are kept
+    if (isBotGame(state)) {
+      var human = getOpponentId(state, BOT_USER_ID);
+      if (human && state.winner === human) {
+        try {
+          nk.leaderboardRecordWrite(BOT_LEADERBOARD_ID, human, state.players[human].username, 1, 0);
+          logger.info("[LB] Win vs bot recorded for " + human);
+        } catch (err) {
+          logger.error("[LB] Failed to record win vs bot: " + String(err));
+        }
       }
       return;
     }
 
-    // Record win for winner
-    const winnerPlayer = state.players[state.winner];
-    if (winnerPlayer) {
-      const winnerUsername = winnerPlayer.username || "Unknown";
-      logger.info(`[LB] Recording WIN: user=${state.winner} username=${winnerUsername}`);
+    // Results that look like win trading or leave farming are held for an admin instead of counted
+    var flags = detectAbuse(nk, state, logger);
+    if (flags.length > 0) {
+      queueAbuseReview(nk, state, flags, logger);
+    } else {
+      countGameResult(nk, state, logger);
+    }
 
-      try {
-        nk.leaderboardRecordWrite("global_wins", state.winner, winnerUsername, 1, 0);
-        logger.info("[LB] Win recorded successfully");
-      } catch (err) {
-        logger.error("[LB] Failed to record win: " + String(err));
-      }
+    // Feed the result into the tournament bracket (tournament matches only)
+    reportTournamentResult(nk, state, logger);
 
-      // Update win streak for winner
-      updateWinStreaks(nk, state.winner, "win", logger);
+    logger.info("[LB] Leaderboard update completed");
+  } catch (err) {
+    logger.error("[LB] Unexpected error in updateLeaderboard: " + String(err));
+  }
+}
+
+// Count a finished game everywhere: ratings, standings, achievements, season and the all-time boards
+// Also called by admin_resolve_review when a flagged result turns out to be fine
+function countGameResult(
+  nk: nkruntime.Nakama,
+  state: GameState,
+  logger: nkruntime.Logger
+): void {
+  if (!state.winner) {
+    return;
+  }
+  var playerIds = Object.keys(state.players);
+
+  // Update skill ratings for this mode (wins, losses and draws all count)
+  var ratingChanges = updateRatings(nk, state, logger);
+
+  // Keep a server-side record of the counted result so admins can void it later
+  recordMatchResult(nk, state, ratingChanges, logger);
+
+  // Update the standings behind get_leaderboard (before global_wins/global_losses, which seed them)
+  var standings = updateStandings(nk, state, logger);
+
+  // Unlock achievements from the updated standings and this game
+  evaluateAchievements(nk, state, standings, logger);
+
+  // Count the game in the current season
+  updateSeasonStandings(nk, state, logger);
+
+  // If it's a draw, reset streaks for both players (draws are counted in the standings above)
+  if (state.winner === "draw") {
+    logger.info("[LB] Game ended in a draw. Resetting streaks for both players.");
+    for (var d = 0; d < playerIds.length; d++) {
+      updateWinStreaks(nk, playerIds[d], "draw", logger);
     }
+    return;
+  }
 
-    // Record loss for loser
-    for (var i = 0; i < playerIds.length; i++) {
-      var playerId = playerIds[i];
-      if (playerId !== state.winner) {
-        const loserPlayer = state.players[playerId];
-        if (loserPlayer) {
-          const loserUsername = loserPlayer.username || "Unknown";
-          logger.info(`[LB] Recording LOSS: user=${playerId} username=${loserUsername}`);
+  // Record win for winner
+  const winnerPlayer = state.players[state.winner];
+  if (winnerPlayer) {
+    const winnerUsername = winnerPlayer.username || "Unknown";
+    logger.info(`[LB] Recording WIN: user=${state.winner} username=${winnerUsername}`);
 
-          try {
-            nk.leaderboardRecordWrite("global_losses", playerId, loserUsername, 1, 0);
-            logger.info("[LB] Loss recorded successfully");
-          } catch (err) {
-            logger.error("[LB] Failed to record loss: " + String(err));
-          }
+    try {
+      nk.leaderboardRecordWrite("global_wins", state.winner, winnerUsername, 1, 0);
+      logger.info("[LB] Win recorded successfully");
+    } catch (err) {
+      logger.error("[LB] Failed to record win: " + String(err));
+    }
 
-          // Reset win streak for loser
-          updateWinStreaks(nk, playerId, "loss", logger);
+    // Update win streak for winner
+    updateWinStreaks(nk, state.winner, "win", logger);
+  }
+
+  // Record loss for loser
+  for (var i = 0; i < playerIds.length; i++) {
+    var playerId = playerIds[i];
+    if (playerId !== state.winner) {
+      const loserPlayer = state.players[playerId];
+      if (loserPlayer) {
+        const loserUsername = loserPlayer.username || "Unknown";
+        logger.info(`[LB] Recording LOSS: user=${playerId} username=${loserUsername}`);
+
+        try {
+          nk.leaderboardRecordWrite("global_losses", playerId, loserUsername, 1, 0);
+          logger.info("[LB] Loss recorded successfully");
+        } catch (err) {
+          logger.error("[LB] Failed to record loss: " + String(err));
         }
-        break;
+
+        // Reset win streak for loser
+        updateWinStreaks(nk, playerId, "loss", logger);
       }
+      break;
     }
-
-    logger.info("[LB] Leaderboard update completed");
-  } catch (err) {
-    logger.error("[LB] Unexpected error in updateLeaderboard: " + String(err));
   }
 }
\ No newline at end of file
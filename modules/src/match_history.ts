@@ -0,0 +1,162 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// match_history.ts - Persistent match history and move-by-move replays
+// Every completed game is written to both players' match_history collection.
+// Keys sort newest first, so storageList pages through history in the order players expect.
+
+// Largest timestamp we'll ever see - subtracting from it makes keys sort newest first
+const HISTORY_KEY_MAX_TIMESTAMP = 9999999999999;
+
+// Store the game that just finished for both players
+// Called from handleGameCompleted - failures are logged, never thrown
+function saveMatchRecord(
+  nk: nkruntime.Nakama,
+  state: GameState,
+  logger: nkruntime.Logger
+): void {
+  try {
+    var endedAt = Date.now();
+    var startedAt = state.gameStartedAt || state.createdAt;
+    var gameNumber = state.series.gamesPlayed;
+
+    var players: { userId: string; username: string; symbol: "X" | "O" }[] = [];
+    for (var userId in state.players) {
+      players.push({
+        userId: userId,
+        username: state.players[userId].username,
+        symbol: state.players[userId].symbol,
+      });
+    }
+
+    var record: MatchRecord = {
+      id: buildMatchRecordId(endedAt, state.matchId, gameNumber),
+      matchId: state.matchId,
+      gameNumber: gameNumber,
+      mode: state.mode,
+      boardWidth: state.boardWidth,
+      boardHeight: state.boardHeight,
+      winLength: state.winLength,
+      timeControl: state.timeControl ? state.timeControl.id : null,
+      vsBot: isBotGame(state),
+      players: players,
+      moves: state.moves.slice(),
+      winner: state.winner,
+      endReason: state.endReason || "forfeit",
+      startedAt: startedAt,
+      endedAt: endedAt,
+      durationMs: endedAt - startedAt,
+    };
+
+    // One copy per player so each can page and delete their own history
+    var writes: nkruntime.StorageWriteRequest[] = [];
+    for (var i = 0; i < players.length; i++) {
+      // The bot has no account to store anything under
+      if (players[i].userId === BOT_USER_ID) {
+        continue;
+      }
+      writes.push({
+        collection: MATCH_HISTORY_COLLECTION,
+        key: record.id,
+        userId: players[i].userId,
+        value: record as any,
+        permissionRead: 1, // Owner only - history and replays are private to the player
+        permissionWrite: 0, // Only server can write
+      });
+    }
+
+    nk.storageWrite(writes);
+    logger.info("[HISTORY] Saved match record " + record.id + " (" + record.moves.length + " moves, " + record.endReason + ")");
+  } catch (err) {
+    logger.error("[HISTORY] Error saving match record: " + String(err));
+    // Don't throw - history is nice-to-have, don't break the game
+  }
+}
+
+// Storage key: reversed end time (newest first), then match and game number
+function buildMatchRecordId(endedAt: number, matchId: string, gameNumber: number): string {
+  var reversed = String(HISTORY_KEY_MAX_TIMESTAMP - endedAt);
+  while (reversed.length < String(HISTORY_KEY_MAX_TIMESTAMP).length) {
+    reversed = "0" + reversed;
+  }
+  return reversed + "_" + matchId + "_" + gameNumber;
+}
+
+// RPC function to page through the caller's past games (newest first)
+// Payload: { limit?: number, cursor?: string } - only the caller's own history is readable
+let rpcGetMatchHistory: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[HISTORY] RPC get_match_history called by user: " + ctx.userId);
+  if (!ctx.userId) {
+    throw new Error("Match history needs an authenticated user");
+  }
+
+  var data = JSON.parse(payload || "{}");
+  var userId: string = ctx.userId;
+  var limit = Number(data.limit) || MATCH_HISTORY_DEFAULT_PAGE_SIZE;
+  limit = Math.min(Math.max(limit, 1), MATCH_HISTORY_MAX_PAGE_SIZE);
+
+  var result = nk.storageList(userId, MATCH_HISTORY_COLLECTION, limit, data.cursor || "");
+  var objects = (result && result.objects) || [];
+
+  // Summaries only - the full move list comes from get_replay
+  var games = [];
+  for (var i = 0; i < objects.length; i++) {
+    var value = objects[i].value;
+    var record = (typeof value === "string" ? JSON.parse(value) : value) as MatchRecord;
+    games.push({
+      id: record.id,
+      matchId: record.matchId,
+      gameNumber: record.gameNumber,
+      mode: record.mode,
+      vsBot: !!record.vsBot,
+      players: record.players,
+      winner: record.winner,
+      endReason: record.endReason,
+      moveCount: record.moves.length,
+      startedAt: record.startedAt,
+      endedAt: record.endedAt,
+      durationMs: record.durationMs,
+    });
+  }
+
+  logger.info("[HISTORY] Returning " + games.length + " games for user " + userId);
+  return JSON.stringify({ games: games, cursor: (result && result.cursor) || null });
+};
+
+// RPC function to fetch one game with its full move list for the replay viewer
+// Payload: { id: string } - only games from the caller's own history
+let rpcGetReplay: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[HISTORY] RPC get_replay called by user: " + ctx.userId);
+  if (!ctx.userId) {
+    throw new Error("Replays need an authenticated user");
+  }
+
+  var data = JSON.parse(payload || "{}");
+  if (!data.id) {
+    throw new Error("Missing replay id");
+  }
+
+  var objects = nk.storageRead([{
+    collection: MATCH_HISTORY_COLLECTION,
+    key: String(data.id),
+    userId: ctx.userId,
+  }]);
+
+  if (!objects || objects.length === 0) {
+    throw new Error("Replay not found");
+  }
+
+  var value = objects[0].value;
+  var record = (typeof value === "string" ? JSON.parse(value) : value) as MatchRecord;
+  return JSON.stringify({ replay: record });
+};
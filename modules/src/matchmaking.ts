@@ -0,0 +1,205 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+/// <reference path="rating.ts" />
+/// <reference path="clock.ts" />
+
+// matchmaking.ts - Nakama built-in matchmaker integration
+// Clients submit a matchmaker ticket over the socket:
+//   socket.addMatchmaker("*", 2, 2, { mode: "timed", timeControl: "3+2", bestOf: "0", width: "3", height: "3", winLength: "3" })
+// The before-hook validates the ticket and fills in the server-side rating, and once the
+// matchmaker pairs two tickets the matched-hook creates the authoritative match for them.
+// Tickets are cancelled with socket.removeMatchmaker(ticket) like any other Nakama ticket.
+
+// Options every tic_tac_toe match is created with
+interface MatchOptions {
+  mode: GameMode;
+  timeControl: TimeControl | null;  // Clock preset ("timed" always, "ultimate" optional, "classic" never)
+  bestOf: number;
+  width: number;                 // Board columns
+  height: number;                // Board rows
+  winLength: number;             // Marks in a row needed to win
+}
+
+// Parse the match options shared by matchmaker tickets, find_match and create_private_match
+function parseMatchOptions(payload: string, logger: nkruntime.Logger): MatchOptions {
+  var data = JSON.parse(payload || "{}");
+  var mode: string = data.mode || "timed"; // Default to timed for backwards compatibility
+
+  // Validate mode
+  if (GAME_MODES.indexOf(mode as GameMode) === -1) {
+    logger.error("Invalid mode: " + mode);
+    throw new Error("Invalid mode. Must be 'classic', 'timed' or 'ultimate'");
+  }
+
+  // Clock preset - "timed" defaults to 30s per move, ultimate only has a clock when asked for
+  // (timed: true is still accepted for ultimate and means the 30s preset)
+  var timeControl: TimeControl | null = null;
+  if (mode !== "classic") {
+    var timeControlId: string | null = data.timeControl ? String(data.timeControl) : null;
+    if (!timeControlId && (mode === "timed" || String(data.timed) === "true")) {
+      timeControlId = DEFAULT_TIME_CONTROL;
+    }
+    if (timeControlId) {
+      timeControl = getTimeControl(timeControlId);
+      if (!timeControl) {
+        logger.error("Invalid timeControl: " + timeControlId);
+        throw new Error("Invalid timeControl. Must be one of " + Object.keys(TIME_CONTROL_PRESETS).join(", "));
+      }
+    }
+  }
+
+  // Optional series length (best of 3/5) - 0 means open-ended rematches
+  var bestOf: number = data.bestOf !== undefined ? Number(data.bestOf) : 0;
+  if (SERIES_BEST_OF_OPTIONS.indexOf(bestOf) === -1) {
+    logger.error("Invalid bestOf: " + data.bestOf);
+    throw new Error("Invalid bestOf. Must be one of " + SERIES_BEST_OF_OPTIONS.join(", "));
+  }
+
+  // Optional board configuration (m,n,k) - defaults to classic 3x3, 3 in a row
+  var width: number = data.width !== undefined ? Number(data.width) : DEFAULT_BOARD_SIZE;
+  var height: number = data.height !== undefined ? Number(data.height) : DEFAULT_BOARD_SIZE;
+  var winLength: number = data.winLength !== undefined ? Number(data.winLength) : DEFAULT_WIN_LENGTH;
+  if (!isValidBoardSize(width) || !isValidBoardSize(height)) {
+    logger.error("Invalid board size: " + data.width + "x" + data.height);
+    throw new Error("Invalid board size. Width and height must be " + MIN_BOARD_SIZE + "-" + MAX_BOARD_SIZE);
+  }
+  if (winLength % 1 !== 0 || winLength < MIN_BOARD_SIZE || winLength > Math.max(width, height)) {
+    logger.error("Invalid winLength: " + data.winLength);
+    throw new Error("Invalid winLength. Must be " + MIN_BOARD_SIZE + "-" + Math.max(width, height) + " for this board");
+  }
+
+  // Ultimate always plays on nine 3x3 boards
+  if (mode === "ultimate") {
+    width = 3;
+    height = 3;
+    winLength = 3;
+  }
+
+  return { mode: mode as GameMode, timeControl: timeControl, bestOf: bestOf, width: width, height: height, winLength: winLength };
+}
+
+// Board sides are whole numbers within the supported range
+function isValidBoardSize(size: number): boolean {
+  return size % 1 === 0 && size >= MIN_BOARD_SIZE && size <= MAX_BOARD_SIZE;
+}
+
+// RT before-hook for MatchmakerAdd - validate the ticket and stamp the server-side rating
+// The client never gets to choose its own rating or pair across modes
+let beforeMatchmakerAdd: nkruntime.RtBeforeHookFunction<nkruntime.EnvelopeMatchmakerAdd> = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  envelope: nkruntime.EnvelopeMatchmakerAdd
+): nkruntime.EnvelopeMatchmakerAdd | void {
+  var ticket = envelope.matchmakerAdd;
+  var stringProperties = ticket.stringProperties || {};
+
+  var options: MatchOptions;
+  try {
+    options = parseMatchOptions(JSON.stringify(stringProperties), logger);
+  } catch (error) {
+    // Returning nothing rejects the ticket
+    logger.warn("[MATCHMAKER] Rejecting ticket from " + ctx.userId + ": " + error);
+    return;
+  }
+
+  var rating = Math.round(getPlayerRating(nk, ctx.userId, options.mode).rating);
+
+  // Tic-tac-toe is always exactly two players
+  ticket.minCount = 2;
+  ticket.maxCount = 2;
+  ticket.stringProperties = {
+    mode: options.mode,
+    timeControl: options.timeControl ? options.timeControl.id : "",
+    bestOf: String(options.bestOf),
+    width: String(options.width),
+    height: String(options.height),
+    winLength: String(options.winLength),
+  };
+  // Clock settings are numeric so the query never has to escape preset names like "3+2"
+  ticket.numericProperties = {
+    rating: rating,
+    clockBank: options.timeControl ? options.timeControl.bankMs / 1000 : 0,
+    clockIncrement: options.timeControl ? options.timeControl.incrementMs / 1000 : 0,
+    clockMove: options.timeControl ? options.timeControl.moveMs / 1000 : 0,
+  };
+
+  // Mode, clock, series length and board must match; a close rating is preferred but not required
+  ticket.query = "+properties.mode:" + options.mode +
+    getTimeControlQuery("properties", options.timeControl) +
+    " +properties.bestOf:" + options.bestOf +
+    " +properties.width:" + options.width +
+    " +properties.height:" + options.height +
+    " +properties.winLength:" + options.winLength +
+    " properties.rating:>=" + (rating - MATCHMAKER_PREFERRED_RATING_RANGE) +
+    " properties.rating:<=" + (rating + MATCHMAKER_PREFERRED_RATING_RANGE);
+
+  logger.info("[MATCHMAKER] Ticket accepted for " + ctx.userId + " (mode " + options.mode + ", rating " + rating + ")");
+  return envelope;
+};
+
+// RT after-hook for MatchmakerRemove - a player cancelled their ticket
+let afterMatchmakerRemove: nkruntime.RtAfterHookFunction<nkruntime.EnvelopeMatchmakerRemove> = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  output: nkruntime.EnvelopeMatchmakerRemove | null,
+  input: nkruntime.EnvelopeMatchmakerRemove
+) {
+  logger.info("[MATCHMAKER] Ticket " + input.matchmakerRemove.ticket + " cancelled by " + ctx.userId);
+};
+
+// Matchmaker matched hook - create the authoritative match for the paired players
+// The returned match ID is sent to both clients in their matchmaker_matched message
+let matchmakerMatched: nkruntime.MatchmakerMatchedFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  matches: nkruntime.MatchmakerResult[]
+): string | void {
+  var userIds: string[] = [];
+  var ratings: number[] = [];
+  for (var i = 0; i < matches.length; i++) {
+    userIds.push(matches[i].presence.userId);
+    ratings.push(Number(matches[i].properties["rating"]) || DEFAULT_RATING);
+  }
+
+  // Both tickets share mode, clock, series length and board (enforced by the ticket query)
+  var properties = matches[0].properties;
+  var options: MatchOptions = {
+    mode: properties["mode"] as GameMode,
+    timeControl: getTimeControl(properties["timeControl"]),
+    bestOf: Number(properties["bestOf"]) || 0,
+    width: Number(properties["width"]) || DEFAULT_BOARD_SIZE,
+    height: Number(properties["height"]) || DEFAULT_BOARD_SIZE,
+    winLength: Number(properties["winLength"]) || DEFAULT_WIN_LENGTH,
+  };
+
+  var matchId = createTicTacToeMatch(nk, options, {
+    rating: Math.round(Math.max.apply(null, ratings)),
+    reservedFor: userIds.join(","),
+  });
+
+  logger.info("[MATCHMAKER] Paired " + userIds.join(" vs ") + " into match " + matchId);
+  return matchId;
+};
+
+// Create a tic_tac_toe match - shared by the matchmaker hook, find_match and private matches
+function createTicTacToeMatch(
+  nk: nkruntime.Nakama,
+  options: MatchOptions,
+  extraParams: { [key: string]: any }
+): string {
+  var params: { [key: string]: any } = {
+    mode: options.mode,
+    timeControl: options.timeControl ? options.timeControl.id : "",
+    bestOf: options.bestOf,
+    width: options.width,
+    height: options.height,
+    winLength: options.winLength,
+  };
+  for (var key in extraParams) {
+    params[key] = extraParams[key];
+  }
+  return nk.matchCreate("tic_tac_toe", params);
+}
@@ -0,0 +1,181 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// messages.ts - Schema checks for everything clients send into a match
+// Every inbound opcode has a schema; a payload that doesn't match it exactly (wrong type,
+// missing field, unknown field, too big) is dropped before it reaches the game logic.
+
+// One field of a message schema
+interface FieldRule {
+  type: "integer" | "string" | "boolean";
+  required: boolean;
+  nullable?: boolean;            // null is accepted as well (browsers send sdpMid: null)
+  maxLength?: number;            // Strings only
+}
+
+// Expected payload per client opcode - opcodes missing here are rejected outright
+const CLIENT_MESSAGE_SCHEMAS: { [opCode: number]: { [field: string]: FieldRule } } = {
+  [OpCode.MAKE_MOVE]: {
+    position: { type: "integer", required: true },
+    moveId: { type: "string", required: false, maxLength: MAX_MOVE_ID_LENGTH },
+  },
+
+  // RTCSessionDescription / RTCIceCandidate as produced by toJSON() in the browser
+  [OpCode.WEBRTC_OFFER]: {
+    type: { type: "string", required: true, maxLength: 16 },  // "offer" (checked by the relay)
+    sdp: { type: "string", required: true, maxLength: MAX_CLIENT_MESSAGE_BYTES },
+  },
+  [OpCode.WEBRTC_ANSWER]: {
+    type: { type: "string", required: true, maxLength: 16 },  // "answer" (checked by the relay)
+    sdp: { type: "string", required: true, maxLength: MAX_CLIENT_MESSAGE_BYTES },
+  },
+  [OpCode.WEBRTC_ICE_CANDIDATE]: {
+    candidate: { type: "string", required: true, maxLength: 1024 },
+    sdpMid: { type: "string", required: false, nullable: true, maxLength: 64 },
+    sdpMLineIndex: { type: "integer", required: false, nullable: true },
+    usernameFragment: { type: "string", required: false, nullable: true, maxLength: 256 },
+  },
+
+  // Rematch messages carry no data (an empty payload or {})
+  [OpCode.REMATCH_REQUEST]: {},
+  [OpCode.REMATCH_ACCEPT]: {},
+  [OpCode.REMATCH_DECLINE]: {},
+
+  // Voice settings
+  [OpCode.VOICE_OPT_IN]: {},
+  [OpCode.VOICE_OPT_OUT]: {},
+  [OpCode.VOICE_MUTE]: {
+    muted: { type: "boolean", required: true },
+  },
+
+  // Chat
+  [OpCode.CHAT_MESSAGE]: {
+    text: { type: "string", required: true, maxLength: CHAT_MAX_LENGTH },
+  },
+  [OpCode.CHAT_REACTION]: {
+    reaction: { type: "string", required: true, maxLength: 32 },
+  },
+  [OpCode.CHAT_MUTE]: {
+    muted: { type: "boolean", required: true },
+  },
+
+  // The version the client has, if any (only logged)
+  [OpCode.REQUEST_SYNC]: {
+    version: { type: "integer", required: false, nullable: true },
+  },
+};
+
+// Decode and check a client message against its opcode's schema
+// error is set when the message must be dropped; data is whatever JSON could be parsed
+// (so a rejected move can still echo the client's moveId)
+function parseClientMessage(
+  nk: nkruntime.Nakama,
+  message: nkruntime.MatchMessage
+): { data: any; error: string | null } {
+  var schema = CLIENT_MESSAGE_SCHEMAS[message.opCode];
+  if (!schema) {
+    return { data: null, error: "unknown opCode" };
+  }
+
+  var rawData = message.data ? nk.binaryToString(message.data) : "";
+  if (rawData.length > MAX_CLIENT_MESSAGE_BYTES) {
+    return { data: null, error: "payload too large (" + rawData.length + " bytes)" };
+  }
+
+  // Some opcodes, like rematch, carry no payload
+  var data: any;
+  try {
+    data = rawData ? JSON.parse(rawData) : {};
+  } catch (err) {
+    return { data: null, error: "payload is not valid JSON" };
+  }
+
+  return { data: data, error: validatePayload(data, schema) };
+}
+
+// Check a parsed payload against a schema, returns what's wrong (null if it's fine)
+function validatePayload(data: any, schema: { [field: string]: FieldRule }): string | null {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return "payload must be a JSON object";
+  }
+
+  for (var key in data) {
+    if (!schema.hasOwnProperty(key)) {
+      return "unexpected field '" + key + "'";
+    }
+  }
+
+  for (var field in schema) {
+    var rule = schema[field];
+    var value = data[field];
+
+    if (value === undefined) {
+      if (rule.required) {
+        return "missing field '" + field + "'";
+      }
+      continue;
+    }
+    if (value === null && rule.nullable) {
+      continue;
+    }
+
+    if (rule.type === "integer" && (typeof value !== "number" || value % 1 !== 0)) {
+      return "'" + field + "' must be an integer";
+    }
+    if (rule.type === "boolean" && typeof value !== "boolean") {
+      return "'" + field + "' must be true or false";
+    }
+    if (rule.type === "string") {
+      if (typeof value !== "string") {
+        return "'" + field + "' must be a string";
+      }
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        return "'" + field + "' is longer than " + rule.maxLength + " characters";
+      }
+    }
+  }
+
+  return null;
+}
+
+// Count a message against the sender's limit for this kind of message
+// Returns true once they've sent more than max within the window (the message should be dropped)
+function isRateLimited(
+  state: GameState,
+  kind: string,
+  userId: string,
+  max: number,
+  windowMs: number
+): boolean {
+  var key = kind + ":" + userId;
+  var now = Date.now();
+  var window = state.rateLimits[key];
+
+  if (!window || now - window.windowStart >= windowMs) {
+    window = { windowStart: now, count: 0 };
+    state.rateLimits[key] = window;
+  }
+
+  window.count++;
+  return window.count > max;
+}
+
+// The client's moveId if it sent a usable one
+function getMoveId(data: any): string | null {
+  if (data && typeof data.moveId === "string" && data.moveId.length <= MAX_MOVE_ID_LENGTH) {
+    return data.moveId;
+  }
+  return null;
+}
+
+// Tell only the sender that their move wasn't applied (and which move, if they gave it an ID)
+function sendMoveRejection(
+  dispatcher: nkruntime.MatchDispatcher,
+  sender: nkruntime.Presence,
+  reason: MoveRejectReason,
+  moveId: string | null,
+  position: any
+): void {
+  var rejection: MoveRejection = { reason: reason, moveId: moveId, position: position };
+  dispatcher.broadcastMessage(OpCode.MOVE_REJECTED, JSON.stringify(rejection), [sender]);
+}
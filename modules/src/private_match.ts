@@ -0,0 +1,160 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+/// <reference path="matchmaking.ts" />
+
+// private_match.ts - Private matches with shareable join codes
+// A private match never shows up in find_match; friends get in by sharing a short code
+
+// RPC function to create a private match and hand back its join code
+let rpcCreatePrivateMatch: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[PRIVATE] RPC create_private_match called by user: " + ctx.userId);
+  checkRpcRateLimit(ctx, nk, "create_private_match", logger);
+
+  var options = parseMatchOptions(payload, logger);
+
+  // Reserve a code first so two matches can never share one
+  var code = reservePrivateMatchCode(nk, ctx.userId, logger);
+
+  let matchId: string;
+  try {
+    matchId = createTicTacToeMatch(nk, options, { privateCode: code });
+  } catch (error) {
+    logger.error("[PRIVATE] Error creating match: " + error);
+    expirePrivateMatchCode(nk, code, logger);
+    throw error;
+  }
+
+  // Point the reserved code at the new match
+  writePrivateMatchCode(nk, code, matchId, ctx.userId, null);
+  logger.info("[PRIVATE] Created private match " + matchId + " with code " + code);
+
+  return JSON.stringify({ matchId: matchId, code: code });
+};
+
+// RPC function to resolve a join code to its match ID
+let rpcJoinPrivateMatch: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[PRIVATE] RPC join_private_match called by user: " + ctx.userId);
+  checkRpcRateLimit(ctx, nk, "join_private_match", logger);
+
+  var data = JSON.parse(payload || "{}");
+  var code = normalizePrivateMatchCode(data.code);
+  if (!code) {
+    throw new Error("Missing join code");
+  }
+
+  var entry = readPrivateMatchCode(nk, code);
+  if (!entry || !entry.matchId || entry.expiresAt <= Date.now()) {
+    logger.info("[PRIVATE] Code " + code + " not found or expired");
+    throw new Error("Invalid or expired join code");
+  }
+
+  // Make sure the match is still running
+  var match = nk.matchGet(entry.matchId);
+  if (!match) {
+    expirePrivateMatchCode(nk, code, logger);
+    throw new Error("Invalid or expired join code");
+  }
+
+  logger.info("[PRIVATE] Code " + code + " resolved to match " + entry.matchId);
+
+  // Client joins with { code } in the join metadata
+  return JSON.stringify({ matchId: entry.matchId, code: code });
+};
+
+// Uppercase and strip whitespace so "abc 234" and "ABC234" are the same code
+function normalizePrivateMatchCode(code: any): string | null {
+  if (typeof code !== "string") {
+    return null;
+  }
+  var normalized = code.replace(/\s+/g, "").toUpperCase();
+  return normalized.length === PRIVATE_MATCH_CODE_LENGTH ? normalized : null;
+}
+
+// Generate a random code and claim it in storage (retrying on collisions)
+function reservePrivateMatchCode(nk: nkruntime.Nakama, userId: string, logger: nkruntime.Logger): string {
+  for (var attempt = 0; attempt < 5; attempt++) {
+    var code = "";
+    for (var i = 0; i < PRIVATE_MATCH_CODE_LENGTH; i++) {
+      code += PRIVATE_MATCH_CODE_ALPHABET.charAt(Math.floor(Math.random() * PRIVATE_MATCH_CODE_ALPHABET.length));
+    }
+
+    try {
+      // Version "*" only writes if the key doesn't exist yet
+      writePrivateMatchCode(nk, code, "", userId, "*");
+      return code;
+    } catch (err) {
+      logger.info("[PRIVATE] Code " + code + " already taken, retrying");
+    }
+  }
+
+  throw new Error("Could not generate a join code, please try again");
+}
+
+// Store the code -> match mapping (owned by the system user, server-only access)
+function writePrivateMatchCode(
+  nk: nkruntime.Nakama,
+  code: string,
+  matchId: string,
+  createdBy: string,
+  version: string | null
+): void {
+  var write: nkruntime.StorageWriteRequest = {
+    collection: PRIVATE_MATCH_CODE_COLLECTION,
+    key: code,
+    userId: SYSTEM_USER_ID,
+    value: {
+      matchId: matchId,
+      createdBy: createdBy,
+      expiresAt: Date.now() + PRIVATE_MATCH_CODE_TTL_MS,
+    },
+    permissionRead: 0, // Server only
+    permissionWrite: 0,
+  };
+  if (version) {
+    write.version = version;
+  }
+  nk.storageWrite([write]);
+}
+
+// Look up a code, returns null if it doesn't exist
+function readPrivateMatchCode(
+  nk: nkruntime.Nakama,
+  code: string
+): { matchId: string; createdBy: string; expiresAt: number } | null {
+  var objects = nk.storageRead([{
+    collection: PRIVATE_MATCH_CODE_COLLECTION,
+    key: code,
+    userId: SYSTEM_USER_ID,
+  }]);
+
+  if (!objects || objects.length === 0) {
+    return null;
+  }
+
+  var value = objects[0].value;
+  return (typeof value === "string" ? JSON.parse(value) : value) as { matchId: string; createdBy: string; expiresAt: number };
+}
+
+// Remove a code so it can no longer be used (match started or abandoned)
+function expirePrivateMatchCode(nk: nkruntime.Nakama, code: string, logger: nkruntime.Logger): void {
+  try {
+    nk.storageDelete([{
+      collection: PRIVATE_MATCH_CODE_COLLECTION,
+      key: code,
+      userId: SYSTEM_USER_ID,
+    }]);
+    logger.info("[PRIVATE] Join code " + code + " expired");
+  } catch (err) {
+    logger.warn("[PRIVATE] Failed to expire join code " + code + ": " + String(err));
+  }
+}
@@ -0,0 +1,111 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// profile.ts - Player profile and detailed stats
+// Everything here is read from data maintained at match completion (standings, ratings, badges),
+// so a profile is a handful of reads no matter how many games the player has played.
+
+// RPC function to fetch a player's profile with per-mode stats
+// Payload: { userId?: string } - defaults to the caller
+let rpcGetPlayerProfile: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[PROFILE] RPC get_player_profile called by user: " + ctx.userId);
+
+  var data = JSON.parse(payload || "{}");
+  var userId: string = data.userId || ctx.userId;
+  if (!userId) {
+    throw new Error("Missing userId");
+  }
+
+  var account = nk.accountGetId(userId);
+  var user = account.user;
+
+  // Standings for every scope and ratings for every mode in one read
+  var reads: nkruntime.StorageReadRequest[] = [];
+  for (var i = 0; i < STANDINGS_SCOPES.length; i++) {
+    reads.push({ collection: STANDINGS_COLLECTION, key: STANDINGS_SCOPES[i], userId: userId });
+  }
+  for (var m = 0; m < GAME_MODES.length; m++) {
+    reads.push({ collection: RATING_COLLECTION, key: GAME_MODES[m], userId: userId });
+  }
+  var objects = nk.storageRead(reads) || [];
+
+  var modes: { [scope: string]: any } = {};
+  var ratings: { [mode: string]: number } = {};
+  for (var o = 0; o < objects.length; o++) {
+    var value = objects[o].value;
+    var parsed = typeof value === "string" ? JSON.parse(value) : value;
+
+    if (objects[o].collection === STANDINGS_COLLECTION) {
+      modes[objects[o].key] = buildModeStats(normalizeStandings(parsed as PlayerStandings));
+    } else {
+      ratings[objects[o].key] = Math.round((parsed as PlayerRating).rating);
+    }
+  }
+
+  // Scopes without a game yet still show up, with zeros
+  for (var s = 0; s < STANDINGS_SCOPES.length; s++) {
+    if (!modes[STANDINGS_SCOPES[s]]) {
+      modes[STANDINGS_SCOPES[s]] = buildModeStats(createEmptyStandings());
+    }
+  }
+
+  return JSON.stringify({
+    userId: userId,
+    username: user.username,
+    displayName: user.displayName || null,
+    avatarUrl: user.avatarUrl || null,
+    createdAt: user.createTime,
+    modes: modes,
+    ratings: ratings,
+    badges: listPlayerBadges(nk, userId),
+  });
+};
+
+// Turn stored counters into the stats shown on the profile
+function buildModeStats(standings: PlayerStandings): { [stat: string]: number | null } {
+  var games = standings.wins + standings.losses + standings.draws;
+
+  return {
+    gamesPlayed: games,
+    wins: standings.wins,
+    losses: standings.losses,
+    draws: standings.draws,
+    timeouts: standings.timeouts,
+    forfeitsGiven: standings.forfeitsGiven,
+    forfeitsReceived: standings.forfeitsReceived,
+    winRate: getPercentage(standings.wins, games),
+    winStreak: standings.winStreak,
+    bestWinStreak: standings.bestWinStreak,
+    averageGameMs: games > 0 ? Math.round(standings.totalDurationMs / games) : null,
+    winRateAsX: getPercentage(standings.winsAsX, standings.gamesAsX),
+    winRateAsO: getPercentage(standings.winsAsO, standings.gamesAsO),
+  };
+}
+
+// Percentage rounded to 1 decimal (null when there's nothing to divide by)
+function getPercentage(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : null;
+}
+
+// Every badge a player has earned (season finishes so far)
+function listPlayerBadges(nk: nkruntime.Nakama, userId: string): SeasonBadge[] {
+  var badges: SeasonBadge[] = [];
+  var cursor = "";
+
+  do {
+    var result = nk.storageList(userId, PLAYER_BADGES_COLLECTION, 100, cursor);
+    var objects = (result && result.objects) || [];
+    for (var i = 0; i < objects.length; i++) {
+      var value = objects[i].value;
+      badges.push((typeof value === "string" ? JSON.parse(value) : value) as SeasonBadge);
+    }
+    cursor = (result && result.cursor) || "";
+  } while (cursor);
+
+  return badges;
+}
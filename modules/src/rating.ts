@@ -0,0 +1,253 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// rating.ts - Glicko-2 skill rating per game mode
+// Every completed game (win, loss or draw) is treated as its own rating period
+
+// Glicko-2 works on its own scale - this converts to/from the familiar 1500-based one
+const GLICKO_SCALE = 173.7178;
+
+// Read a player's rating for one mode (defaults for players who haven't played yet)
+function getPlayerRating(nk: nkruntime.Nakama, userId: string, mode: GameMode): PlayerRating {
+  return readPlayerRating(nk, userId, mode).rating;
+}
+
+// Same, with the storage version to write it back against ("*" when the player has no rating yet)
+function readPlayerRating(nk: nkruntime.Nakama, userId: string, mode: GameMode): { rating: PlayerRating; version: string } {
+  var objects = nk.storageRead([{
+    collection: RATING_COLLECTION,
+    key: mode,
+    userId: userId,
+  }]);
+
+  if (objects && objects.length > 0) {
+    var value = objects[0].value;
+    return { rating: (typeof value === "string" ? JSON.parse(value) : value) as PlayerRating, version: objects[0].version };
+  }
+
+  return {
+    rating: {
+      rating: DEFAULT_RATING,
+      deviation: DEFAULT_RATING_DEVIATION,
+      volatility: DEFAULT_RATING_VOLATILITY,
+      gamesPlayed: 0,
+      updatedAt: 0,
+    },
+    version: "*",
+  };
+}
+
+// Update both players' ratings for a finished game and refresh the rating leaderboard
+// Called from updateLeaderboard for wins, losses and draws
+// Writes are versioned, so a player with two games finishing at once gets both updates (the loser retries)
+// Returns the rating points each player gained (negative for a loss), or null if nothing was written
+function updateRatings(
+  nk: nkruntime.Nakama,
+  state: GameState,
+  logger: nkruntime.Logger
+): { [userId: string]: number } | null {
+  try {
+    var playerIds = Object.keys(state.players);
+    var a = playerIds[0];
+    var b = playerIds[1];
+
+    // Score from player A's point of view: 1 = win, 0.5 = draw, 0 = loss
+    var scoreA = state.winner === "draw" ? 0.5 : state.winner === a ? 1 : 0;
+
+    for (var attempt = 1; ; attempt++) {
+      // Read both ratings before writing either - the update has to be symmetric
+      var storedA = readPlayerRating(nk, a, state.mode);
+      var storedB = readPlayerRating(nk, b, state.mode);
+      var ratingA = storedA.rating;
+      var ratingB = storedB.rating;
+
+      var newA = calculateGlicko2(ratingA, ratingB, scoreA);
+      var newB = calculateGlicko2(ratingB, ratingA, 1 - scoreA);
+
+      try {
+        nk.storageWrite([
+          {
+            collection: RATING_COLLECTION,
+            key: state.mode,
+            userId: a,
+            value: newA as any,
+            version: storedA.version,
+            permissionRead: 1, // Owner read - others see ratings through the leaderboard and profiles
+            permissionWrite: 0, // Only server can write
+          },
+          {
+            collection: RATING_COLLECTION,
+            key: state.mode,
+            userId: b,
+            value: newB as any,
+            version: storedB.version,
+            permissionRead: 1,
+            permissionWrite: 0,
+          },
+        ]);
+      } catch (err) {
+        if (attempt >= RATING_WRITE_ATTEMPTS) {
+          throw err;
+        }
+        logger.info("[RATING] Ratings of " + a + " or " + b + " changed while updating, retrying");
+        continue;
+      }
+      break;
+    }
+
+    logger.info(`[RATING] ${state.mode}: ${a} ${Math.round(ratingA.rating)} -> ${Math.round(newA.rating)}, ${b} ${Math.round(ratingB.rating)} -> ${Math.round(newB.rating)}`);
+
+    writeRatingLeaderboard(nk, a, state.players[a].username, logger);
+    writeRatingLeaderboard(nk, b, state.players[b].username, logger);
+
+    var changes: { [userId: string]: number } = {};
+    changes[a] = newA.rating - ratingA.rating;
+    changes[b] = newB.rating - ratingB.rating;
+    return changes;
+  } catch (err) {
+    logger.error("[RATING] Error updating ratings: " + String(err));
+    // Don't throw - a rating failure shouldn't break the game
+    return null;
+  }
+}
+
+// Take the points a voided game moved back off a player's rating (admin_void_result)
+// Deviation and volatility stay - they describe the player, not the game
+function revertRatingChange(
+  nk: nkruntime.Nakama,
+  userId: string,
+  username: string,
+  mode: GameMode,
+  change: number,
+  logger: nkruntime.Logger
+): void {
+  for (var attempt = 1; ; attempt++) {
+    var stored = readPlayerRating(nk, userId, mode);
+    if (stored.version === "*") {
+      return;
+    }
+    var rating = stored.rating;
+    rating.rating -= change;
+    rating.gamesPlayed = Math.max(0, rating.gamesPlayed - 1);
+
+    try {
+      nk.storageWrite([{
+        collection: RATING_COLLECTION,
+        key: mode,
+        userId: userId,
+        value: rating as any,
+        version: stored.version,
+        permissionRead: 1,
+        permissionWrite: 0,
+      }]);
+    } catch (err) {
+      if (attempt >= RATING_WRITE_ATTEMPTS) {
+        throw err;
+      }
+      logger.info("[RATING] Rating of " + userId + " changed while reverting, retrying");
+      continue;
+    }
+    break;
+  }
+
+  writeRatingLeaderboard(nk, userId, username, logger);
+}
+
+// Write the player's best rating across modes to the global_rating leaderboard
+// Per-mode ratings go in the record metadata so the client can show both
+function writeRatingLeaderboard(
+  nk: nkruntime.Nakama,
+  userId: string,
+  username: string,
+  logger: nkruntime.Logger
+): void {
+  var modes = GAME_MODES;
+  var perMode: { [mode: string]: number } = {};
+  var best = 0;
+
+  for (var i = 0; i < modes.length; i++) {
+    var rating = getPlayerRating(nk, userId, modes[i]);
+    if (rating.gamesPlayed > 0) {
+      perMode[modes[i]] = Math.round(rating.rating);
+      best = Math.max(best, perMode[modes[i]]);
+    }
+  }
+
+  try {
+    nk.leaderboardRecordWrite(RATING_LEADERBOARD_ID, userId, username, best, 0, perMode);
+  } catch (err) {
+    logger.error("[RATING] Failed to write rating leaderboard for " + userId + ": " + String(err));
+  }
+}
+
+// One Glicko-2 rating period with a single opponent
+// score: 1 = win, 0.5 = draw, 0 = loss
+function calculateGlicko2(player: PlayerRating, opponent: PlayerRating, score: number): PlayerRating {
+  // Step 1: convert to the Glicko-2 scale
+  var mu = (player.rating - DEFAULT_RATING) / GLICKO_SCALE;
+  var phi = player.deviation / GLICKO_SCALE;
+  var sigma = player.volatility;
+  var muJ = (opponent.rating - DEFAULT_RATING) / GLICKO_SCALE;
+  var phiJ = opponent.deviation / GLICKO_SCALE;
+
+  // Step 2: expected score and estimated variance
+  var g = 1 / Math.sqrt(1 + (3 * phiJ * phiJ) / (Math.PI * Math.PI));
+  var expected = 1 / (1 + Math.exp(-g * (mu - muJ)));
+  var v = 1 / (g * g * expected * (1 - expected));
+  var delta = v * g * (score - expected);
+
+  // Step 3: new volatility (Illinois algorithm from the Glicko-2 paper)
+  var aLog = Math.log(sigma * sigma);
+  var f = function (x: number): number {
+    var ex = Math.exp(x);
+    var denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - aLog) / (GLICKO_TAU * GLICKO_TAU);
+  };
+
+  var A = aLog;
+  var B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    var k = 1;
+    while (f(aLog - k * GLICKO_TAU) < 0) {
+      k++;
+    }
+    B = aLog - k * GLICKO_TAU;
+  }
+
+  var fA = f(A);
+  var fB = f(B);
+  for (var iteration = 0; iteration < 100 && Math.abs(B - A) > 0.000001; iteration++) {
+    var C = A + ((A - B) * fA) / (fB - fA);
+    var fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  var newSigma = Math.exp(A / 2);
+
+  // Step 4: new deviation and rating
+  var phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+  var newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  var newMu = mu + newPhi * newPhi * g * (score - expected);
+
+  return {
+    rating: newMu * GLICKO_SCALE + DEFAULT_RATING,
+    deviation: Math.max(MIN_RATING_DEVIATION, newPhi * GLICKO_SCALE),
+    volatility: newSigma,
+    gamesPlayed: player.gamesPlayed + 1,
+    updatedAt: Date.now(),
+  };
+}
+
+// Rating window a waiting match accepts after waiting this long
+function getRatingWindow(waitedMs: number): number {
+  var steps = Math.floor(waitedMs / RATING_WINDOW_STEP_MS);
+  return Math.min(RATING_WINDOW_MAX, RATING_WINDOW_BASE + steps * RATING_WINDOW_STEP);
+}
@@ -0,0 +1,233 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// seasons.ts - Seasonal leaderboard, end-of-season archive and season badges
+// season_wins resets on a cron schedule so new players can catch up; the all-time boards
+// (global_wins, global_losses, standings_*) never reset. When a season ends Nakama calls
+// onLeaderboardReset, which archives the final standings and hands out badges.
+
+// Create the seasonal board with the configured reset schedule (called from InitModule)
+// Nakama keeps a board's schedule from when it was created - changing SEASON_RESET_SCHEDULE later
+// needs the season_wins board deleted (which ends the running season), so a mismatch is logged loudly
+function createSeasonLeaderboard(ctx: nkruntime.Context, nk: nkruntime.Nakama, logger: nkruntime.Logger): void {
+  var env = ctx.env || {};
+  var schedule = env["SEASON_RESET_SCHEDULE"] || DEFAULT_SEASON_RESET_SCHEDULE;
+
+  try {
+    nk.leaderboardCreate(
+      SEASON_LEADERBOARD_ID, // Leaderboard ID
+      false,              // Not authoritative
+      nkruntime.SortOrder.DESCENDING,   // Sort order (most wins first, then fewest losses)
+      nkruntime.Operator.INCREMENTAL,   // Operator: add each result
+      schedule,           // Season reset schedule (cron)
+      {}                  // No metadata
+    );
+    logger.info("Leaderboard '" + SEASON_LEADERBOARD_ID + "' created with reset schedule '" + schedule + "'");
+    return;
+  } catch (error) {
+    // Already exists - check below that it still runs on the configured schedule
+  }
+
+  var boards = nk.leaderboardsGetId([SEASON_LEADERBOARD_ID]);
+  var board = boards && boards.length > 0 ? (boards[0] as any) : null;
+  if (!board) {
+    logger.error("[SEASON] Leaderboard '" + SEASON_LEADERBOARD_ID + "' could not be created or read");
+    return;
+  }
+
+  var nextReset = board.nextReset ? new Date(board.nextReset * 1000).toISOString() : "unknown";
+  if (typeof board.resetSchedule === "string" && board.resetSchedule !== schedule) {
+    logger.error(
+      "[SEASON] Leaderboard '" + SEASON_LEADERBOARD_ID + "' resets on '" + board.resetSchedule + "', not the configured '" +
+      schedule + "' - delete the board to apply SEASON_RESET_SCHEDULE (this ends the running season)"
+    );
+  } else if (typeof board.resetSchedule !== "string") {
+    // This Nakama version doesn't report the schedule - make the one in use visible at least
+    logger.warn(
+      "[SEASON] Leaderboard '" + SEASON_LEADERBOARD_ID + "' already exists and keeps the schedule it was created with " +
+      "(next reset " + nextReset + "); SEASON_RESET_SCHEDULE '" + schedule + "' only applies to a new board"
+    );
+  } else {
+    logger.info("Leaderboard '" + SEASON_LEADERBOARD_ID + "' already exists with reset schedule '" + schedule + "' (next reset " + nextReset + ")");
+  }
+}
+
+// Count a finished game on the seasonal board (called from updateLeaderboard for non-bot games)
+// Losses go into the subscore as negatives so fewer losses break ties
+function updateSeasonStandings(
+  nk: nkruntime.Nakama,
+  state: GameState,
+  logger: nkruntime.Logger
+): void {
+  for (var userId in state.players) {
+    var wins = state.winner === userId ? 1 : 0;
+    var losses = state.winner !== "draw" && state.winner !== userId ? -1 : 0;
+
+    try {
+      // A draw writes 0/0 so the player still appears in this season
+      nk.leaderboardRecordWrite(SEASON_LEADERBOARD_ID, userId, state.players[userId].username, wins, losses);
+    } catch (err) {
+      logger.error("[SEASON] Failed to record result for " + userId + ": " + String(err));
+    }
+  }
+}
+
+// Leaderboard reset hook - archive the season that just ended and award badges
+let onLeaderboardReset: nkruntime.LeaderboardResetFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  leaderboard: nkruntime.Leaderboard,
+  reset: number
+) {
+  // Nakama has one reset hook for every board - the hourly deletion sweep comes through here too
+  if (leaderboard.id === USER_DELETION_SWEEP_LEADERBOARD_ID) {
+    runDueUserDeletions(nk, logger);
+    return;
+  }
+  if (leaderboard.id !== SEASON_LEADERBOARD_ID) {
+    return;
+  }
+
+  // Records of the ended season expire at the reset time
+  var seasonId = new Date(reset * 1000).toISOString().slice(0, 10);
+  logger.info("[SEASON] Season " + seasonId + " ended, archiving final standings");
+
+  try {
+    var result = nk.leaderboardRecordsList(SEASON_LEADERBOARD_ID, [], SEASON_ARCHIVE_SIZE, "", reset);
+    var records = (result && result.records) || [];
+
+    var standings: SeasonStanding[] = [];
+    for (var i = 0; i < records.length; i++) {
+      standings.push(toSeasonStanding(records[i]));
+    }
+
+    var archive: SeasonResults = { seasonId: seasonId, endedAt: reset * 1000, standings: standings };
+    nk.storageWrite([{
+      collection: SEASON_RESULTS_COLLECTION,
+      key: seasonId,
+      userId: SYSTEM_USER_ID,
+      value: archive as any,
+      permissionRead: 2, // Public read - anyone can look at past seasons
+      permissionWrite: 0, // Only server can write
+    }]);
+
+    awardSeasonBadges(nk, archive, logger);
+    logger.info("[SEASON] Archived season " + seasonId + " (" + standings.length + " players)");
+  } catch (err) {
+    logger.error("[SEASON] Failed to archive season " + seasonId + ": " + String(err));
+  }
+};
+
+// Seasonal board record -> standings row (losses are stored as a negative subscore)
+function toSeasonStanding(record: nkruntime.LeaderboardRecord): SeasonStanding {
+  return {
+    rank: record.rank,
+    userId: record.ownerId,
+    username: record.username || "Unknown",
+    wins: record.score,
+    losses: -record.subscore,
+  };
+}
+
+// Badge tier for a final rank (null outside the badge ranks)
+function getSeasonBadgeTier(rank: number): SeasonBadgeTier | null {
+  if (rank === 1) {
+    return "champion";
+  }
+  if (rank <= 3) {
+    return "podium";
+  }
+  return rank <= SEASON_BADGE_RANKS ? "top10" : null;
+}
+
+// Give the season's top finishers a permanent badge on their profile
+// Keyed by season, so re-running the hook for the same season doesn't duplicate badges
+function awardSeasonBadges(nk: nkruntime.Nakama, archive: SeasonResults, logger: nkruntime.Logger): void {
+  var writes: nkruntime.StorageWriteRequest[] = [];
+  for (var i = 0; i < archive.standings.length; i++) {
+    var standing = archive.standings[i];
+    var tier = getSeasonBadgeTier(standing.rank);
+    if (!tier) {
+      continue;
+    }
+
+    var badge: SeasonBadge = { seasonId: archive.seasonId, tier: tier, rank: standing.rank, awardedAt: Date.now() };
+    writes.push({
+      collection: PLAYER_BADGES_COLLECTION,
+      key: "season_" + archive.seasonId,
+      userId: standing.userId,
+      value: badge as any,
+      permissionRead: 2, // Public read - badges show on the player's profile
+      permissionWrite: 0, // Only server can write
+    });
+  }
+
+  if (writes.length > 0) {
+    nk.storageWrite(writes);
+    logger.info("[SEASON] Awarded " + writes.length + " badges for season " + archive.seasonId);
+  }
+}
+
+// RPC function for season results
+// Payload: { season?: string, limit?: number, cursor?: string }
+//   no season   -> list of archived seasons (oldest first, season IDs are dates) with their champions
+//   "current"   -> live standings of the running season (paginated)
+//   "YYYY-MM-DD" -> final standings of an archived season
+let rpcGetSeasonResults: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[SEASON] RPC get_season_results called by user: " + ctx.userId);
+
+  var data = JSON.parse(payload || "{}");
+  var limit = Number(data.limit) || LEADERBOARD_DEFAULT_PAGE_SIZE;
+  limit = Math.min(Math.max(Math.floor(limit), 1), LEADERBOARD_MAX_PAGE_SIZE);
+  var cursor: string = data.cursor ? String(data.cursor) : "";
+
+  if (data.season === "current") {
+    var result = nk.leaderboardRecordsList(SEASON_LEADERBOARD_ID, [], limit, cursor, 0);
+    var records = (result && result.records) || [];
+    var standings: SeasonStanding[] = [];
+    for (var i = 0; i < records.length; i++) {
+      standings.push(toSeasonStanding(records[i]));
+    }
+    return JSON.stringify({
+      season: "current",
+      standings: standings,
+      nextCursor: (result && result.nextCursor) || null,
+      prevCursor: (result && result.prevCursor) || null,
+    });
+  }
+
+  if (data.season) {
+    var objects = nk.storageRead([{
+      collection: SEASON_RESULTS_COLLECTION,
+      key: String(data.season),
+      userId: SYSTEM_USER_ID,
+    }]);
+    if (!objects || objects.length === 0) {
+      throw new Error("Season not found");
+    }
+    var value = objects[0].value;
+    return JSON.stringify({ results: (typeof value === "string" ? JSON.parse(value) : value) as SeasonResults });
+  }
+
+  var list = nk.storageList(SYSTEM_USER_ID, SEASON_RESULTS_COLLECTION, limit, cursor);
+  var archived = (list && list.objects) || [];
+  var seasons = [];
+  for (var j = 0; j < archived.length; j++) {
+    var archivedValue = archived[j].value;
+    var season = (typeof archivedValue === "string" ? JSON.parse(archivedValue) : archivedValue) as SeasonResults;
+    seasons.push({
+      seasonId: season.seasonId,
+      endedAt: season.endedAt,
+      players: season.standings.length,
+      champion: season.standings.length > 0 ? season.standings[0] : null,
+    });
+  }
+
+  return JSON.stringify({ seasons: seasons, cursor: (list && list.cursor) || null });
+};
@@ -0,0 +1,475 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// standings.ts - Precomputed standings and the paginated get_leaderboard RPC
+// At match end each player's standings (wins, losses, draws, streaks) are updated overall and for
+// the game mode, then written to one Nakama leaderboard per sort order with the full standings
+// as record metadata. A leaderboard page is then a single leaderboardRecordsList call - no
+// merging of boards in memory and no per-player storage reads.
+
+// Leaderboard ID for a scope and sort, e.g. "standings_timed_win_rate"
+function getStandingsLeaderboardId(scope: StandingsScope, sort: StandingsSort): string {
+  return "standings_" + scope + "_" + sort;
+}
+
+// Create every standings leaderboard (called from InitModule)
+function createStandingsLeaderboards(nk: nkruntime.Nakama, logger: nkruntime.Logger): void {
+  for (var i = 0; i < STANDINGS_SCOPES.length; i++) {
+    for (var j = 0; j < STANDINGS_SORTS.length; j++) {
+      var id = getStandingsLeaderboardId(STANDINGS_SCOPES[i], STANDINGS_SORTS[j]);
+      try {
+        // Scores are recomputed from the standings on every write, so SET replaces them
+        nk.leaderboardCreate(
+          id,
+          false,
+          nkruntime.SortOrder.DESCENDING,
+          nkruntime.Operator.SET,
+          "",
+          {}
+        );
+      } catch (error) {
+        // Already exists from a previous run - that's OK
+      }
+    }
+  }
+  logger.info("[STANDINGS] Leaderboards ready for scopes " + STANDINGS_SCOPES.join(", "));
+}
+
+// Update both players' standings (overall and for this mode) after a finished game
+// Called from updateLeaderboard for non-bot games, before global_wins/global_losses are written
+// Returns each player's updated overall standings (empty if the update failed)
+function updateStandings(
+  nk: nkruntime.Nakama,
+  state: GameState,
+  logger: nkruntime.Logger
+): { [userId: string]: PlayerStandings } {
+  var overall: { [userId: string]: PlayerStandings } = {};
+  try {
+    var playerIds = Object.keys(state.players);
+    var scopes: StandingsScope[] = ["all", state.mode];
+
+    for (var p = 0; p < playerIds.length; p++) {
+      var userId = playerIds[p];
+      var updated = updatePlayerStandings(nk, userId, state.players[userId].username, scopes, true, function (standings) {
+        applyStandingsResult(standings, state, userId);
+      }, logger);
+      if (updated["all"]) {
+        overall[userId] = updated["all"];
+      }
+    }
+
+    logger.info("[STANDINGS] Updated standings for " + playerIds.join(", ") + " (" + scopes.join(", ") + ")");
+    return overall;
+  } catch (err) {
+    logger.error("[STANDINGS] Error updating standings: " + String(err));
+    // Don't throw - standings are derived data, don't break the game
+    return overall;
+  }
+}
+
+// Read, change and write one player's standings in the given scopes, then refresh their leaderboard records
+// Writes are versioned, so two games finishing at once for the same player both count (the loser retries)
+// Scopes the player has no standings in yet are created when createMissing is set and skipped otherwise
+function updatePlayerStandings(
+  nk: nkruntime.Nakama,
+  userId: string,
+  username: string,
+  scopes: StandingsScope[],
+  createMissing: boolean,
+  mutate: (standings: PlayerStandings, scope: StandingsScope) => void,
+  logger: nkruntime.Logger
+): { [scope: string]: PlayerStandings } {
+  for (var attempt = 1; ; attempt++) {
+    var reads: nkruntime.StorageReadRequest[] = [];
+    for (var i = 0; i < scopes.length; i++) {
+      reads.push({ collection: STANDINGS_COLLECTION, key: scopes[i], userId: userId });
+    }
+    var objects = nk.storageRead(reads) || [];
+
+    var stored: { [scope: string]: nkruntime.StorageObject } = {};
+    for (var o = 0; o < objects.length; o++) {
+      stored[objects[o].key] = objects[o];
+    }
+
+    var updated: { [scope: string]: PlayerStandings } = {};
+    var writes: nkruntime.StorageWriteRequest[] = [];
+    for (var t = 0; t < scopes.length; t++) {
+      var scope = scopes[t];
+      var object = stored[scope];
+      if (!object && !createMissing) {
+        continue;
+      }
+
+      var value = object ? object.value : null;
+      var standings = object ? normalizeStandings((typeof value === "string" ? JSON.parse(value) : value) as PlayerStandings) :
+        (scope === "all" ? seedStandingsFromLegacy(nk, userId, logger) : createEmptyStandings());
+      mutate(standings, scope);
+      updated[scope] = standings;
+
+      writes.push({
+        collection: STANDINGS_COLLECTION,
+        key: scope,
+        userId: userId,
+        value: standings as any,
+        version: object ? object.version : "*", // "*" = only if nobody created it meanwhile
+        permissionRead: 2, // Public read - anyone can look at a player's standings
+        permissionWrite: 0, // Only server can write
+      });
+    }
+
+    if (writes.length === 0) {
+      return updated;
+    }
+
+    try {
+      nk.storageWrite(writes);
+    } catch (err) {
+      if (attempt >= STANDINGS_WRITE_ATTEMPTS) {
+        throw err;
+      }
+      logger.info("[STANDINGS] Standings of " + userId + " changed while updating, retrying");
+      continue;
+    }
+
+    // Leaderboard records follow the stored standings
+    for (var scopeKey in updated) {
+      writeStandingsRecords(nk, userId, username, scopeKey as StandingsScope, updated[scopeKey], logger);
+    }
+    return updated;
+  }
+}
+
+// One-time copy of every legacy player (global_wins / global_losses / user_streaks) into the "all" standings
+// Without it players only appear on get_leaderboard after their next game (called from InitModule)
+function backfillLegacyStandings(nk: nkruntime.Nakama, logger: nkruntime.Logger): void {
+  var marker = nk.storageRead([{ collection: SERVER_MIGRATIONS_COLLECTION, key: STANDINGS_BACKFILL_KEY, userId: SYSTEM_USER_ID }]);
+  if (marker && marker.length > 0) {
+    return;
+  }
+
+  try {
+    // Everyone with a legacy record, with their scores
+    var legacy: { [userId: string]: { username: string; wins: number; losses: number } } = {};
+    var boards = ["global_wins", "global_losses"];
+    for (var b = 0; b < boards.length; b++) {
+      var cursor = "";
+      do {
+        var page = nk.leaderboardRecordsList(boards[b], [], 100, cursor, 0);
+        var records = (page && page.records) || [];
+        for (var r = 0; r < records.length; r++) {
+          var ownerId = records[r].ownerId;
+          legacy[ownerId] = legacy[ownerId] || { username: records[r].username || "Unknown", wins: 0, losses: 0 };
+          if (boards[b] === "global_wins") {
+            legacy[ownerId].wins = records[r].score;
+          } else {
+            legacy[ownerId].losses = records[r].score;
+          }
+        }
+        cursor = (page && page.nextCursor) || "";
+      } while (cursor);
+    }
+
+    var seeded = 0;
+    for (var userId in legacy) {
+      var standings = createEmptyStandings();
+      standings.wins = legacy[userId].wins;
+      standings.losses = legacy[userId].losses;
+      var streaks = getStreakData(nk, userId, logger);
+      standings.winStreak = streaks.winStreak;
+      standings.bestWinStreak = streaks.bestWinStreak;
+
+      try {
+        nk.storageWrite([{
+          collection: STANDINGS_COLLECTION,
+          key: "all",
+          userId: userId,
+          value: standings as any,
+          version: "*", // Players who already have standings keep them
+          permissionRead: 2,
+          permissionWrite: 0,
+        }]);
+      } catch (err) {
+        continue;
+      }
+      writeStandingsRecords(nk, userId, legacy[userId].username, "all", standings, logger);
+      seeded++;
+    }
+
+    nk.storageWrite([{
+      collection: SERVER_MIGRATIONS_COLLECTION,
+      key: STANDINGS_BACKFILL_KEY,
+      userId: SYSTEM_USER_ID,
+      value: { completedAt: Date.now(), players: seeded },
+      permissionRead: 0, // Server only
+      permissionWrite: 0,
+    }]);
+    logger.info("[STANDINGS] Backfilled standings for " + seeded + " legacy players");
+  } catch (err) {
+    // Not marked done - the next start tries again
+    logger.error("[STANDINGS] Legacy backfill failed: " + String(err));
+  }
+}
+
+// Fresh standings for a player's first game in a scope
+function createEmptyStandings(): PlayerStandings {
+  return {
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    winStreak: 0,
+    bestWinStreak: 0,
+    timeouts: 0,
+    forfeitsGiven: 0,
+    forfeitsReceived: 0,
+    totalDurationMs: 0,
+    gamesAsX: 0,
+    winsAsX: 0,
+    gamesAsO: 0,
+    winsAsO: 0,
+    updatedAt: Date.now(),
+  };
+}
+
+// Fill in counters that standings stored before they existed start at 0
+function normalizeStandings(stored: PlayerStandings): PlayerStandings {
+  var standings = createEmptyStandings();
+  for (var key in standings) {
+    if (typeof (stored as any)[key] === "number") {
+      (standings as any)[key] = (stored as any)[key];
+    }
+  }
+  return standings;
+}
+
+// Players from before standings existed: start "all" from global_wins/global_losses and their streaks
+function seedStandingsFromLegacy(nk: nkruntime.Nakama, userId: string, logger: nkruntime.Logger): PlayerStandings {
+  var standings = createEmptyStandings();
+
+  try {
+    var wins = nk.leaderboardRecordsList("global_wins", [userId], 1, "", 0);
+    if (wins && wins.ownerRecords && wins.ownerRecords.length > 0) {
+      standings.wins = wins.ownerRecords[0].score;
+    }
+    var losses = nk.leaderboardRecordsList("global_losses", [userId], 1, "", 0);
+    if (losses && losses.ownerRecords && losses.ownerRecords.length > 0) {
+      standings.losses = losses.ownerRecords[0].score;
+    }
+  } catch (err) {
+    logger.warn("[STANDINGS] Could not read legacy records for " + userId + ": " + String(err));
+  }
+
+  var streaks = getStreakData(nk, userId, logger);
+  standings.winStreak = streaks.winStreak;
+  standings.bestWinStreak = streaks.bestWinStreak;
+
+  return standings;
+}
+
+// Count the game that just finished for one player
+function applyStandingsResult(standings: PlayerStandings, state: GameState, userId: string): void {
+  var won = state.winner === userId;
+  var drawn = state.winner === "draw";
+
+  if (won) {
+    standings.wins++;
+    standings.winStreak++;
+    standings.bestWinStreak = Math.max(standings.bestWinStreak, standings.winStreak);
+  } else {
+    if (drawn) {
+      standings.draws++;
+    } else {
+      standings.losses++;
+    }
+    standings.winStreak = 0;
+  }
+
+  // How the game ended
+  if (state.endReason === "timeout" && !won && !drawn) {
+    standings.timeouts++;
+  }
+  if (state.endReason === "forfeit") {
+    if (won) {
+      standings.forfeitsReceived++;
+    } else if (!drawn) {
+      standings.forfeitsGiven++;
+    }
+  }
+
+  // Game length and results by symbol
+  var now = Date.now();
+  standings.totalDurationMs += now - (state.gameStartedAt || state.createdAt);
+  if (state.players[userId].symbol === "X") {
+    standings.gamesAsX++;
+    standings.winsAsX += won ? 1 : 0;
+  } else {
+    standings.gamesAsO++;
+    standings.winsAsO += won ? 1 : 0;
+  }
+
+  standings.updatedAt = now;
+}
+
+// Take a voided game back out of one player's standings (admin_void_result)
+// Streaks aren't touched - whether the current one still runs through this game isn't recorded
+function revertStandingsResult(standings: PlayerStandings, result: MatchResultRecord, userId: string): void {
+  var won = result.winner === userId;
+  var drawn = result.winner === "draw";
+
+  if (won) {
+    standings.wins = Math.max(0, standings.wins - 1);
+  } else if (drawn) {
+    standings.draws = Math.max(0, standings.draws - 1);
+  } else {
+    standings.losses = Math.max(0, standings.losses - 1);
+  }
+
+  if (result.endReason === "timeout" && !won && !drawn) {
+    standings.timeouts = Math.max(0, standings.timeouts - 1);
+  }
+  if (result.endReason === "forfeit") {
+    if (won) {
+      standings.forfeitsReceived = Math.max(0, standings.forfeitsReceived - 1);
+    } else if (!drawn) {
+      standings.forfeitsGiven = Math.max(0, standings.forfeitsGiven - 1);
+    }
+  }
+
+  standings.totalDurationMs = Math.max(0, standings.totalDurationMs - result.durationMs);
+  for (var i = 0; i < result.players.length; i++) {
+    if (result.players[i].userId !== userId) {
+      continue;
+    }
+    if (result.players[i].symbol === "X") {
+      standings.gamesAsX = Math.max(0, standings.gamesAsX - 1);
+      standings.winsAsX = Math.max(0, standings.winsAsX - (won ? 1 : 0));
+    } else {
+      standings.gamesAsO = Math.max(0, standings.gamesAsO - 1);
+      standings.winsAsO = Math.max(0, standings.winsAsO - (won ? 1 : 0));
+    }
+  }
+
+  standings.updatedAt = Date.now();
+}
+
+// Win rate in basis points (0-10000) over all games, draws included
+function getWinRateBasisPoints(standings: PlayerStandings): number {
+  var games = standings.wins + standings.losses + standings.draws;
+  return games > 0 ? Math.round((standings.wins / games) * 10000) : 0;
+}
+
+// Write a player's standings to every sort board of a scope (metadata carries the whole row)
+function writeStandingsRecords(
+  nk: nkruntime.Nakama,
+  userId: string,
+  username: string,
+  scope: StandingsScope,
+  standings: PlayerStandings,
+  logger: nkruntime.Logger
+): void {
+  var games = standings.wins + standings.losses + standings.draws;
+  var winRate = getWinRateBasisPoints(standings);
+
+  // score / subscore (tie-break) per sort
+  var scores: { [sort: string]: number[] } = {
+    wins: [standings.wins, winRate],
+    win_rate: [winRate, games],
+    best_streak: [standings.bestWinStreak, standings.wins],
+  };
+
+  for (var i = 0; i < STANDINGS_SORTS.length; i++) {
+    var sort = STANDINGS_SORTS[i];
+
+    // Win rate over a handful of games means nothing - stay off that board until the threshold
+    if (sort === "win_rate" && games < STANDINGS_MIN_GAMES_FOR_WIN_RATE) {
+      continue;
+    }
+
+    try {
+      nk.leaderboardRecordWrite(
+        getStandingsLeaderboardId(scope, sort),
+        userId,
+        username,
+        scores[sort][0],
+        scores[sort][1],
+        standings as any
+      );
+    } catch (err) {
+      logger.error("[STANDINGS] Failed to write " + scope + "/" + sort + " for " + userId + ": " + String(err));
+    }
+  }
+}
+
+// RPC function to page through the leaderboard
+// Payload: { mode?: "all" | GameMode, sortBy?: "wins" | "win_rate" | "best_streak",
+//            limit?: number, cursor?: string, aroundMe?: boolean }
+// aroundMe centres the page on the caller instead of starting from the top
+let rpcGetLeaderboard: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[LB] RPC get_leaderboard called by user: " + ctx.userId);
+  checkRpcRateLimit(ctx, nk, "get_leaderboard", logger);
+
+  var data = JSON.parse(payload || "{}");
+  var scope = (data.mode || "all") as StandingsScope;
+  if (STANDINGS_SCOPES.indexOf(scope) === -1) {
+    throw new Error("Invalid mode. Must be one of " + STANDINGS_SCOPES.join(", "));
+  }
+  var sort = (data.sortBy || "wins") as StandingsSort;
+  if (STANDINGS_SORTS.indexOf(sort) === -1) {
+    throw new Error("Invalid sortBy. Must be one of " + STANDINGS_SORTS.join(", "));
+  }
+  var limit = Number(data.limit) || LEADERBOARD_DEFAULT_PAGE_SIZE;
+  limit = Math.min(Math.max(Math.floor(limit), 1), LEADERBOARD_MAX_PAGE_SIZE);
+  var cursor: string = data.cursor ? String(data.cursor) : "";
+
+  var leaderboardId = getStandingsLeaderboardId(scope, sort);
+  var result: nkruntime.LeaderboardRecordList;
+  if (data.aroundMe && !cursor) {
+    if (!ctx.userId) {
+      throw new Error("aroundMe needs an authenticated user");
+    }
+    result = nk.leaderboardRecordsHaystack(leaderboardId, ctx.userId, limit);
+  } else {
+    result = nk.leaderboardRecordsList(leaderboardId, [], limit, cursor, 0);
+  }
+
+  var records = (result && result.records) || [];
+  var leaderboard = [];
+  for (var i = 0; i < records.length; i++) {
+    var standings = (records[i].metadata || {}) as PlayerStandings;
+    leaderboard.push({
+      rank: records[i].rank,
+      userId: records[i].ownerId,
+      username: records[i].username || "Unknown",
+      wins: standings.wins || 0,
+      losses: standings.losses || 0,
+      draws: standings.draws || 0,
+      winRate: Math.round(getWinRateBasisPoints(standings) / 10) / 10, // Percent, rounded to 1 decimal
+      winStreak: standings.winStreak || 0,
+      bestWinStreak: standings.bestWinStreak || 0,
+    });
+  }
+
+  logger.info("[LB] Returning " + leaderboard.length + " entries from " + leaderboardId);
+  return JSON.stringify({
+    leaderboard: leaderboard,
+    mode: scope,
+    sortBy: sort,
+    nextCursor: (result && result.nextCursor) || null,
+    prevCursor: (result && result.prevCursor) || null,
+  });
+};
+
+// Every standings leaderboard ID (export and account deletion)
+function getAllStandingsLeaderboardIds(): string[] {
+  var ids: string[] = [];
+  for (var i = 0; i < STANDINGS_SCOPES.length; i++) {
+    for (var j = 0; j < STANDINGS_SORTS.length; j++) {
+      ids.push(getStandingsLeaderboardId(STANDINGS_SCOPES[i], STANDINGS_SORTS[j]));
+    }
+  }
+  return ids;
+}
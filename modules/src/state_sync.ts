@@ -0,0 +1,59 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// state_sync.ts - Versioned state updates, deltas and resync
+// Every broadcast bumps state.version. Clients normally get a STATE_DELTA against the version
+// they already have; if a version is missing or out of order they send REQUEST_SYNC and get the
+// full STATE_UPDATE back (only them).
+
+// Work out what changed between two serialized client views of the state
+function buildStateDelta(previousJson: string, currentJson: string): StateDelta {
+  var previous = JSON.parse(previousJson);
+  var current = JSON.parse(currentJson);
+
+  var delta: StateDelta = {
+    version: current.version,
+    baseVersion: previous.version,
+    cells: {},
+    changes: {},
+  };
+
+  // Board: only the cells that changed (usually one per move)
+  for (var i = 0; i < current.board.length; i++) {
+    if (current.board[i] !== previous.board[i]) {
+      delta.cells[String(i)] = current.board[i];
+    }
+  }
+
+  // Everything else: top-level fields whose value changed (compared as JSON)
+  for (var key in current) {
+    if (key === "board" || key === "version") {
+      continue;
+    }
+    if (JSON.stringify(current[key]) !== JSON.stringify(previous[key])) {
+      delta.changes[key] = current[key];
+    }
+  }
+
+  return delta;
+}
+
+// Send one presence the full state it should be seeing right now
+// Players get the live state; spectators get the (possibly delayed) state they're being shown
+function sendFullState(
+  dispatcher: nkruntime.MatchDispatcher,
+  state: GameState,
+  presence: nkruntime.Presence,
+  logger: nkruntime.Logger
+): void {
+  var isSpectator = !state.players[presence.userId];
+  var stateJson = isSpectator ? state.spectatorSnapshot : state.snapshot;
+
+  // Nothing shown to spectators yet - the first delayed update will be a full one
+  if (!stateJson) {
+    logger.info("[SYNC] No state to send " + presence.username + " yet");
+    return;
+  }
+
+  dispatcher.broadcastMessage(OpCode.STATE_UPDATE, stateJson, [presence]);
+}
@@ -0,0 +1,818 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+/// <reference path="matchmaking.ts" />
+
+// tournament.ts - Bracket tournaments (single elimination and Swiss)
+// Each event is a Nakama tournament (registration via tournamentJoin, results as tournament records)
+// plus a bracket object in storage that drives the rounds. For every pairing the server creates a
+// reserved tic_tac_toe match and notifies both players; results come back through updateLeaderboard
+// and the next round is paired as soon as the last game of the current one is in.
+
+// RPC function to create a tournament (admins only, see admin.ts)
+// Payload: { title, format, maxPlayers?, rounds? (Swiss), mode?, timeControl?, width?, height?, winLength? }
+let rpcCreateTournament: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  requireAdmin(ctx, logger, "create_tournament");
+
+  var data = JSON.parse(payload || "{}");
+  var title = String(data.title || "").replace(/^\s+|\s+$/g, "");
+  if (!title) {
+    throw new Error("Missing title");
+  }
+
+  var format = data.format as TournamentFormat;
+  if (TOURNAMENT_FORMATS.indexOf(format) === -1) {
+    throw new Error("Invalid format. Must be one of " + TOURNAMENT_FORMATS.join(", "));
+  }
+
+  var maxPlayers = data.maxPlayers !== undefined ? Number(data.maxPlayers) : TOURNAMENT_MAX_PLAYERS;
+  if (maxPlayers % 1 !== 0 || maxPlayers < TOURNAMENT_MIN_PLAYERS || maxPlayers > TOURNAMENT_MAX_PLAYERS) {
+    throw new Error("Invalid maxPlayers. Must be " + TOURNAMENT_MIN_PLAYERS + "-" + TOURNAMENT_MAX_PLAYERS);
+  }
+
+  var swissRounds: number | null = null;
+  if (format === "swiss" && data.rounds !== undefined) {
+    swissRounds = Number(data.rounds);
+    if (swissRounds % 1 !== 0 || swissRounds < 1 || swissRounds > maxPlayers - 1) {
+      throw new Error("Invalid rounds. Must be 1-" + (maxPlayers - 1));
+    }
+  }
+
+  // Same match settings as find_match (series don't apply - each pairing is one decisive game)
+  var options = parseMatchOptions(payload, logger);
+
+  var id = nk.uuidv4();
+  nk.tournamentCreate(
+    id,
+    true,                               // Authoritative - only the server writes records
+    nkruntime.SortOrder.DESCENDING,
+    nkruntime.Operator.SET,             // Records are recomputed from the bracket on every result
+    TOURNAMENT_DURATION_SECONDS,
+    null,                               // No reset schedule - one-off event
+    { format: format },
+    title,
+    null,
+    TOURNAMENT_CATEGORY,
+    0,                                  // Starts now (registration is open right away)
+    0,
+    maxPlayers,
+    1000000,                            // Records are rewritten after every game
+    true                                // Players have to join (register) first
+  );
+
+  var bracket: TournamentBracket = {
+    id: id,
+    title: title,
+    format: format,
+    status: "registration",
+    mode: options.mode,
+    timeControl: options.timeControl ? options.timeControl.id : null,
+    width: options.width,
+    height: options.height,
+    winLength: options.winLength,
+    maxPlayers: maxPlayers,
+    swissRounds: swissRounds,
+    totalRounds: 0,
+    players: [],
+    rounds: [],
+    winner: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    endedAt: null,
+  };
+  writeTournamentBracket(nk, bracket, "*");
+
+  logger.info("[TOURNAMENT] Created " + format + " tournament '" + title + "' (" + id + ") for up to " + maxPlayers + " players");
+  return JSON.stringify({ tournament: bracket });
+};
+
+// RPC function to register for a tournament - it starts by itself once it's full
+// Payload: { tournamentId }
+let rpcJoinTournament: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[TOURNAMENT] RPC join_tournament called by user: " + ctx.userId);
+  if (!ctx.userId) {
+    throw new Error("Registering needs an authenticated user");
+  }
+
+  var data = JSON.parse(payload || "{}");
+  var tournamentId = String(data.tournamentId || "");
+  var existing = readTournamentBracket(nk, tournamentId);
+  if (!existing) {
+    throw new Error("Tournament not found");
+  }
+
+  var rating = Math.round(getPlayerRating(nk, ctx.userId, existing.bracket.mode).rating);
+
+  var bracket = updateTournamentBracket(nk, tournamentId, function (current: TournamentBracket): boolean {
+    if (current.status !== "registration") {
+      throw new Error("Registration is closed");
+    }
+    if (findTournamentPlayer(current, ctx.userId)) {
+      throw new Error("Already registered");
+    }
+    if (current.players.length >= current.maxPlayers) {
+      throw new Error("Tournament is full");
+    }
+
+    current.players.push({
+      userId: ctx.userId,
+      username: ctx.username || "Unknown",
+      rating: rating,
+      seed: 0,
+      points: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      byes: 0,
+      eliminated: false,
+      opponents: [],
+    });
+    return true;
+  }, logger);
+
+  // Join the Nakama tournament only once the bracket has the seat (a refused registration never joins)
+  try {
+    nk.tournamentJoin(tournamentId, ctx.userId, ctx.username);
+  } catch (err) {
+    updateTournamentBracket(nk, tournamentId, function (current: TournamentBracket): boolean {
+      var index = -1;
+      for (var i = 0; i < current.players.length; i++) {
+        if (current.players[i].userId === ctx.userId) {
+          index = i;
+        }
+      }
+      if (current.status !== "registration" || index === -1) {
+        return false;
+      }
+      current.players.splice(index, 1);
+      return true;
+    }, logger);
+    throw err;
+  }
+  logger.info("[TOURNAMENT] " + ctx.username + " registered for " + tournamentId + " (" + bracket.players.length + "/" + bracket.maxPlayers + ")");
+
+  if (bracket.players.length >= bracket.maxPlayers) {
+    bracket = startTournament(nk, tournamentId, logger);
+  }
+
+  return JSON.stringify({ tournamentId: tournamentId, status: bracket.status, players: bracket.players.length });
+};
+
+// RPC function to close registration early and start round 1 (admins only)
+// Payload: { tournamentId }
+let rpcStartTournament: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  requireAdmin(ctx, logger, "start_tournament");
+
+  var data = JSON.parse(payload || "{}");
+  var bracket = startTournament(nk, String(data.tournamentId || ""), logger);
+  return JSON.stringify({ tournament: bracket });
+};
+
+// RPC function to fetch a bracket (poll it to show the tournament live)
+// Payload: { tournamentId }
+let rpcGetTournament: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  var data = JSON.parse(payload || "{}");
+  var existing = readTournamentBracket(nk, String(data.tournamentId || ""));
+  if (!existing) {
+    throw new Error("Tournament not found");
+  }
+
+  var ranking = getTournamentRanking(existing.bracket);
+  var standings = [];
+  for (var i = 0; i < ranking.length; i++) {
+    standings.push({
+      rank: i + 1,
+      userId: ranking[i].userId,
+      username: ranking[i].username,
+      points: ranking[i].points,
+      wins: ranking[i].wins,
+      losses: ranking[i].losses,
+      draws: ranking[i].draws,
+      eliminated: ranking[i].eliminated,
+    });
+  }
+
+  return JSON.stringify({ tournament: existing.bracket, standings: standings });
+};
+
+// RPC function to list tournaments (open, running and finished)
+// Payload: { limit?: number, cursor?: string }
+let rpcListTournaments: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  var data = JSON.parse(payload || "{}");
+  var limit = Number(data.limit) || LEADERBOARD_DEFAULT_PAGE_SIZE;
+  limit = Math.min(Math.max(Math.floor(limit), 1), LEADERBOARD_MAX_PAGE_SIZE);
+
+  var result = nk.storageList(SYSTEM_USER_ID, TOURNAMENT_COLLECTION, limit, data.cursor ? String(data.cursor) : "");
+  var objects = (result && result.objects) || [];
+  var tournaments = [];
+  for (var i = 0; i < objects.length; i++) {
+    var value = objects[i].value;
+    var bracket = (typeof value === "string" ? JSON.parse(value) : value) as TournamentBracket;
+    tournaments.push({
+      id: bracket.id,
+      title: bracket.title,
+      format: bracket.format,
+      status: bracket.status,
+      mode: bracket.mode,
+      timeControl: bracket.timeControl,
+      players: bracket.players.length,
+      maxPlayers: bracket.maxPlayers,
+      round: bracket.rounds.length,
+      totalRounds: bracket.totalRounds,
+      winner: bracket.winner,
+      createdAt: bracket.createdAt,
+    });
+  }
+
+  return JSON.stringify({ tournaments: tournaments, cursor: (result && result.cursor) || null });
+};
+
+// Close registration, seed by rating and pair round 1
+function startTournament(nk: nkruntime.Nakama, tournamentId: string, logger: nkruntime.Logger): TournamentBracket {
+  var bracket = updateTournamentBracket(nk, tournamentId, function (current: TournamentBracket): boolean {
+    if (current.status !== "registration") {
+      throw new Error("Tournament has already started");
+    }
+    if (current.players.length < TOURNAMENT_MIN_PLAYERS) {
+      throw new Error("Need at least " + TOURNAMENT_MIN_PLAYERS + " players to start");
+    }
+
+    // Highest rated player is the top seed
+    current.players.sort(function (a, b) {
+      return b.rating - a.rating;
+    });
+    for (var i = 0; i < current.players.length; i++) {
+      current.players[i].seed = i + 1;
+    }
+
+    // Knockout needs log2(players) rounds; Swiss defaults to the same unless a count was asked for
+    var rounds = Math.max(1, Math.ceil(Math.log(current.players.length) / Math.LN2));
+    current.totalRounds = current.format === "swiss" && current.swissRounds
+      ? Math.min(current.swissRounds, current.players.length - 1)
+      : rounds;
+
+    current.status = "running";
+    current.startedAt = Date.now();
+    pairNextTournamentRound(current, logger);
+    return true;
+  }, logger);
+
+  bracket = createTournamentRoundMatches(nk, tournamentId, logger);
+  logger.info("[TOURNAMENT] " + tournamentId + " started with " + bracket.players.length + " players, " + bracket.totalRounds + " rounds");
+  notifyTournamentRound(nk, bracket, logger);
+  return bracket;
+}
+
+// Hand a finished tournament game to the bracket (called from updateLeaderboard)
+// Drawn elimination games are replayed in the same match instead (see runTournamentMatch)
+function reportTournamentResult(nk: nkruntime.Nakama, state: GameState, logger: nkruntime.Logger): void {
+  var info = state.tournament;
+  if (!info || info.resultReported) {
+    return;
+  }
+
+  if (state.winner === "draw" && info.format === "single_elimination" &&
+    state.series.gamesPlayed < TOURNAMENT_MAX_GAMES_PER_PAIRING) {
+    info.replayAt = Date.now() + TOURNAMENT_REPLAY_DELAY_MS;
+    logger.info("[TOURNAMENT] Elimination game drawn, replaying in " + (TOURNAMENT_REPLAY_DELAY_MS / 1000) + "s");
+    return;
+  }
+
+  info.resultReported = true;
+  recordTournamentResult(nk, info, state.matchId, state.winner, state.endReason || "line", logger);
+}
+
+// Tournament-only checks, run from matchLoop every tick
+// Returns false when the match should end (nobody showed up)
+function runTournamentMatch(
+  state: GameState,
+  dispatcher: nkruntime.MatchDispatcher,
+  nk: nkruntime.Nakama,
+  logger: nkruntime.Logger
+): boolean {
+  var info = state.tournament;
+  if (!info) {
+    return true;
+  }
+  var now = Date.now();
+
+  // NO-SHOW: The game never started - whoever is here wins, if nobody is both players lose
+  if (state.status === "waiting" && !info.resultReported && now >= info.noShowDeadline) {
+    var presentIds = Object.keys(state.players);
+    var winnerId = presentIds.length === 1 ? presentIds[0] : null;
+    logger.info("[TOURNAMENT] No-show in round " + info.round + " pairing " + info.pairing + ", winner " + String(winnerId));
+
+    info.resultReported = true;
+    recordTournamentResult(nk, info, state.matchId, winnerId, "no_show", logger);
+    if (!winnerId) {
+      return false;
+    }
+
+    state.status = "completed";
+    state.winner = winnerId;
+    state.endReason = "forfeit";
+    state.completedAt = now;
+    broadcastState(dispatcher, state);
+    return true;
+  }
+
+  // REPLAY: Drawn elimination game - play again with symbols swapped
+  if (state.status === "completed" && info.replayAt !== null && now >= info.replayAt) {
+    info.replayAt = null;
+    startRematch(state, logger);
+
+    // Anyone who left during the break gets the usual reconnect window
+    for (var userId in state.players) {
+      if (!state.players[userId].connected) {
+        state.players[userId].reconnectDeadline = now + state.reconnectGraceMs;
+      }
+    }
+    broadcastState(dispatcher, state);
+  }
+
+  return true;
+}
+
+// Record a pairing's result, then pair the next round (or finish) once the round is complete
+// winner: user ID, "draw", or null when neither player showed up
+function recordTournamentResult(
+  nk: nkruntime.Nakama,
+  info: TournamentMatchInfo,
+  matchId: string,
+  winner: string | null,
+  result: TournamentResultReason,
+  logger: nkruntime.Logger
+): void {
+  try {
+    var recorded = false;
+    var roundsBefore = 0;
+    var bracket = updateTournamentBracket(nk, info.tournamentId, function (current: TournamentBracket): boolean {
+      var round = current.rounds[info.round - 1];
+      var pairing = round ? round.pairings[info.pairing] : null;
+
+      // Results from a stale match (lost bracket write) or a pairing that's already decided are ignored
+      if (current.status !== "running" || info.round !== current.rounds.length || !pairing ||
+        pairing.matchId !== matchId || pairing.result !== null) {
+        return false;
+      }
+      recorded = true;
+      roundsBefore = current.rounds.length;
+
+      // Knockout always needs someone to go through - a drawn-out pairing goes to the higher seed
+      if (winner === "draw" && current.format === "single_elimination") {
+        var playerA = findTournamentPlayer(current, pairing.playerA);
+        var playerB = findTournamentPlayer(current, pairing.playerB || "");
+        winner = playerA && playerB && playerB.seed < playerA.seed ? playerB.userId : pairing.playerA;
+        result = "tiebreak";
+      }
+
+      applyTournamentResult(current, pairing, winner, result);
+      advanceTournament(current, logger);
+      return true;
+    }, logger);
+    if (!recorded) {
+      logger.info("[TOURNAMENT] Ignoring result from match " + matchId + ", pairing already decided or replaced");
+      return;
+    }
+
+    logger.info("[TOURNAMENT] Round " + info.round + " pairing " + info.pairing + " of " + info.tournamentId + ": " + String(winner) + " (" + result + ")");
+    writeTournamentRecords(nk, bracket, logger);
+    if (bracket.rounds.length > roundsBefore) {
+      bracket = createTournamentRoundMatches(nk, info.tournamentId, logger);
+      notifyTournamentRound(nk, bracket, logger);
+    }
+    if (bracket.status === "finished") {
+      notifyTournamentFinished(nk, bracket, logger);
+    }
+  } catch (err) {
+    logger.error("[TOURNAMENT] Failed to record result for " + info.tournamentId + ": " + String(err));
+  }
+}
+
+// Update the pairing and both players' scores
+function applyTournamentResult(
+  bracket: TournamentBracket,
+  pairing: TournamentPairing,
+  winner: string | null,
+  result: TournamentResultReason
+): void {
+  pairing.winner = winner;
+  pairing.result = result;
+  pairing.finishedAt = Date.now();
+
+  var ids = pairing.playerB ? [pairing.playerA, pairing.playerB] : [pairing.playerA];
+  for (var i = 0; i < ids.length; i++) {
+    var player = findTournamentPlayer(bracket, ids[i]);
+    if (!player) {
+      continue;
+    }
+
+    if (result === "bye") {
+      player.byes++;
+      player.points += TOURNAMENT_POINTS_WIN;
+      continue;
+    }
+
+    player.opponents.push(ids[1 - i]);
+    if (winner === "draw") {
+      player.draws++;
+      player.points += TOURNAMENT_POINTS_DRAW;
+    } else if (winner === player.userId) {
+      player.wins++;
+      player.points += TOURNAMENT_POINTS_WIN;
+    } else {
+      // Lost (or didn't show up)
+      player.losses++;
+      player.eliminated = bracket.format === "single_elimination";
+    }
+  }
+}
+
+// Once every pairing of the current round is decided: finish the tournament or pair the next round
+function advanceTournament(bracket: TournamentBracket, logger: nkruntime.Logger): void {
+  var round = bracket.rounds[bracket.rounds.length - 1];
+  for (var i = 0; i < round.pairings.length; i++) {
+    if (round.pairings[i].result === null) {
+      return;
+    }
+  }
+  round.endedAt = Date.now();
+
+  var survivors = getTournamentSurvivors(bracket);
+  var finished = bracket.format === "single_elimination"
+    ? survivors.length <= 1
+    : bracket.rounds.length >= bracket.totalRounds;
+
+  if (finished) {
+    bracket.status = "finished";
+    bracket.endedAt = Date.now();
+    if (bracket.format === "single_elimination") {
+      bracket.winner = survivors.length === 1 ? survivors[0].userId : null;
+    } else {
+      bracket.winner = getTournamentRanking(bracket)[0].userId;
+    }
+    logger.info("[TOURNAMENT] " + bracket.id + " finished, winner " + String(bracket.winner));
+    return;
+  }
+
+  pairNextTournamentRound(bracket, logger);
+}
+
+// Pair the next round and record byes - matches are created afterwards by createTournamentRoundMatches
+// (this runs inside updateTournamentBracket, which repeats it on a version conflict)
+// Elimination reseeds each round (top seed vs bottom seed); Swiss pairs players on equal scores
+// who haven't met yet. Odd player counts give a bye to the top seed (elimination) or to the
+// lowest ranked player without one yet (Swiss).
+function pairNextTournamentRound(bracket: TournamentBracket, logger: nkruntime.Logger): void {
+  var roundNumber = bracket.rounds.length + 1;
+  var pool: TournamentPlayer[];
+  var byes: TournamentPlayer[] = [];
+
+  if (bracket.format === "single_elimination") {
+    pool = getTournamentSurvivors(bracket);
+    pool.sort(function (a, b) {
+      return a.seed - b.seed;
+    });
+
+    // Round 1 fills the bracket up to a power of two with byes for the top seeds
+    var byeCount = roundNumber === 1 ? Math.pow(2, bracket.totalRounds) - pool.length : pool.length % 2;
+    byes = pool.splice(0, byeCount);
+  } else {
+    pool = getTournamentRanking(bracket);
+    if (pool.length % 2 === 1) {
+      var byeIndex = pool.length - 1;
+      for (var b = pool.length - 1; b >= 0; b--) {
+        if (pool[b].byes === 0) {
+          byeIndex = b;
+          break;
+        }
+      }
+      byes = pool.splice(byeIndex, 1);
+    }
+  }
+
+  var round: TournamentRound = { round: roundNumber, startedAt: Date.now(), endedAt: null, pairings: [] };
+  bracket.rounds.push(round);
+
+  for (var i = 0; i < byes.length; i++) {
+    var bye: TournamentPairing = {
+      matchId: null,
+      playerA: byes[i].userId,
+      playerB: null,
+      winner: null,
+      result: null,
+      finishedAt: null,
+    };
+    round.pairings.push(bye);
+    applyTournamentResult(bracket, bye, byes[i].userId, "bye");
+  }
+
+  while (pool.length > 0) {
+    var playerA = pool.shift() as TournamentPlayer;
+    var opponentIndex = bracket.format === "single_elimination" ? pool.length - 1 : 0;
+    if (bracket.format === "swiss") {
+      for (var j = 0; j < pool.length; j++) {
+        if (playerA.opponents.indexOf(pool[j].userId) === -1) {
+          opponentIndex = j;
+          break;
+        }
+      }
+    }
+    var playerB = pool.splice(opponentIndex, 1)[0];
+
+    round.pairings.push({
+      matchId: null,
+      playerA: playerA.userId,
+      playerB: playerB.userId,
+      winner: null,
+      result: null,
+      finishedAt: null,
+    });
+  }
+
+  logger.info("[TOURNAMENT] " + bracket.id + " round " + roundNumber + " paired: " + round.pairings.length + " pairings, " + byes.length + " byes");
+
+  // A round of nothing but byes (everyone else no-showed) is already complete
+  advanceTournament(bracket, logger);
+}
+
+// Create the reserved matches of the current round, then store their IDs in a second versioned update
+// Runs once the bracket write that paired the round has gone through, so no match is ever created twice
+function createTournamentRoundMatches(nk: nkruntime.Nakama, tournamentId: string, logger: nkruntime.Logger): TournamentBracket {
+  var existing = readTournamentBracket(nk, tournamentId);
+  if (!existing) {
+    throw new Error("Tournament not found");
+  }
+  var bracket = existing.bracket;
+  var roundNumber = bracket.rounds.length;
+  var round = bracket.rounds[roundNumber - 1];
+  if (bracket.status !== "running" || !round) {
+    return bracket;
+  }
+
+  var created: { [pairing: number]: string } = {};
+  var count = 0;
+  for (var i = 0; i < round.pairings.length; i++) {
+    var pairing = round.pairings[i];
+    if (pairing.playerB && pairing.matchId === null) {
+      created[i] = createTournamentMatch(nk, bracket, roundNumber, i, pairing.playerA, pairing.playerB);
+      count++;
+    }
+  }
+  if (count === 0) {
+    return bracket;
+  }
+
+  logger.info("[TOURNAMENT] Created " + count + " matches for round " + roundNumber + " of " + tournamentId);
+  return updateTournamentBracket(nk, tournamentId, function (current: TournamentBracket): boolean {
+    var currentRound = current.rounds[roundNumber - 1];
+    var changed = false;
+    for (var index in created) {
+      var currentPairing = currentRound ? currentRound.pairings[Number(index)] : null;
+      if (currentPairing && currentPairing.matchId === null) {
+        currentPairing.matchId = created[index];
+        changed = true;
+      }
+    }
+    return changed;
+  }, logger);
+}
+
+// Create the reserved match for one pairing
+function createTournamentMatch(
+  nk: nkruntime.Nakama,
+  bracket: TournamentBracket,
+  round: number,
+  pairing: number,
+  playerA: string,
+  playerB: string
+): string {
+  var options: MatchOptions = {
+    mode: bracket.mode,
+    timeControl: getTimeControl(bracket.timeControl),
+    bestOf: 0,
+    width: bracket.width,
+    height: bracket.height,
+    winLength: bracket.winLength,
+  };
+
+  return createTicTacToeMatch(nk, options, {
+    reservedFor: playerA + "," + playerB,
+    tournamentId: bracket.id,
+    tournamentFormat: bracket.format,
+    tournamentRound: round,
+    tournamentPairing: pairing,
+  });
+}
+
+// Tournament details for matchInit (null for matches that aren't part of a tournament)
+function getTournamentMatchInfo(ctx: nkruntime.Context, params: { [key: string]: string }): TournamentMatchInfo | null {
+  if (!params.tournamentId) {
+    return null;
+  }
+
+  var env = ctx.env || {};
+  var noShowSeconds = parseInt(env["TOURNAMENT_NO_SHOW_SECONDS"], 10);
+  if (isNaN(noShowSeconds) || noShowSeconds <= 0) {
+    noShowSeconds = DEFAULT_TOURNAMENT_NO_SHOW_SECONDS;
+  }
+
+  return {
+    tournamentId: String(params.tournamentId),
+    format: params.tournamentFormat as TournamentFormat,
+    round: parseInt(params.tournamentRound, 10),
+    pairing: parseInt(params.tournamentPairing, 10),
+    noShowDeadline: Date.now() + noShowSeconds * 1000,
+    replayAt: null,
+    resultReported: false,
+  };
+}
+
+// Players still in the running (everyone in Swiss)
+function getTournamentSurvivors(bracket: TournamentBracket): TournamentPlayer[] {
+  var survivors: TournamentPlayer[] = [];
+  for (var i = 0; i < bracket.players.length; i++) {
+    if (!bracket.players[i].eliminated) {
+      survivors.push(bracket.players[i]);
+    }
+  }
+  return survivors;
+}
+
+// Current order: still in > points > wins > seed
+function getTournamentRanking(bracket: TournamentBracket): TournamentPlayer[] {
+  var ranking = bracket.players.slice();
+  ranking.sort(function (a, b) {
+    if (a.eliminated !== b.eliminated) {
+      return a.eliminated ? 1 : -1;
+    }
+    return (b.points - a.points) || (b.wins - a.wins) || ((a.seed || Infinity) - (b.seed || Infinity));
+  });
+  return ranking;
+}
+
+function findTournamentPlayer(bracket: TournamentBracket, userId: string): TournamentPlayer | null {
+  for (var i = 0; i < bracket.players.length; i++) {
+    if (bracket.players[i].userId === userId) {
+      return bracket.players[i];
+    }
+  }
+  return null;
+}
+
+// Mirror the scores onto the Nakama tournament (score = points, subscore = wins)
+function writeTournamentRecords(nk: nkruntime.Nakama, bracket: TournamentBracket, logger: nkruntime.Logger): void {
+  for (var i = 0; i < bracket.players.length; i++) {
+    var player = bracket.players[i];
+    try {
+      nk.tournamentRecordWrite(bracket.id, player.userId, player.username, player.points, player.wins);
+    } catch (err) {
+      logger.warn("[TOURNAMENT] Failed to write record for " + player.userId + ": " + String(err));
+    }
+  }
+}
+
+// Tell both players of every pending pairing in the current round where to play
+function notifyTournamentRound(nk: nkruntime.Nakama, bracket: TournamentBracket, logger: nkruntime.Logger): void {
+  var round = bracket.rounds[bracket.rounds.length - 1];
+  if (!round || bracket.status !== "running") {
+    return;
+  }
+
+  for (var i = 0; i < round.pairings.length; i++) {
+    var pairing = round.pairings[i];
+    var ids = pairing.playerB ? [pairing.playerA, pairing.playerB] : [pairing.playerA];
+    for (var p = 0; p < ids.length; p++) {
+      var opponent = findTournamentPlayer(bracket, p === 0 ? pairing.playerB || "" : pairing.playerA);
+      try {
+        nk.notificationSend(
+          ids[p],
+          bracket.title + " - round " + round.round,
+          {
+            tournamentId: bracket.id,
+            round: round.round,
+            matchId: pairing.matchId,
+            opponentId: opponent ? opponent.userId : null,
+            opponentUsername: opponent ? opponent.username : null,
+            bye: pairing.result === "bye",
+          },
+          TOURNAMENT_NOTIFICATION_CODE,
+          null,
+          true
+        );
+      } catch (err) {
+        logger.warn("[TOURNAMENT] Failed to notify " + ids[p] + ": " + String(err));
+      }
+    }
+  }
+}
+
+// Tell every player who won
+function notifyTournamentFinished(nk: nkruntime.Nakama, bracket: TournamentBracket, logger: nkruntime.Logger): void {
+  var champion = bracket.winner ? findTournamentPlayer(bracket, bracket.winner) : null;
+  for (var i = 0; i < bracket.players.length; i++) {
+    try {
+      nk.notificationSend(
+        bracket.players[i].userId,
+        bracket.title + " finished",
+        {
+          tournamentId: bracket.id,
+          winnerId: champion ? champion.userId : null,
+          winnerUsername: champion ? champion.username : null,
+        },
+        TOURNAMENT_NOTIFICATION_CODE,
+        null,
+        true
+      );
+    } catch (err) {
+      logger.warn("[TOURNAMENT] Failed to notify " + bracket.players[i].userId + ": " + String(err));
+    }
+  }
+}
+
+// Read a bracket with its storage version (null if there's no such tournament)
+function readTournamentBracket(
+  nk: nkruntime.Nakama,
+  tournamentId: string
+): { bracket: TournamentBracket; version: string } | null {
+  if (!tournamentId) {
+    return null;
+  }
+
+  var objects = nk.storageRead([{ collection: TOURNAMENT_COLLECTION, key: tournamentId, userId: SYSTEM_USER_ID }]);
+  if (!objects || objects.length === 0) {
+    return null;
+  }
+
+  var value = objects[0].value;
+  return {
+    bracket: (typeof value === "string" ? JSON.parse(value) : value) as TournamentBracket,
+    version: objects[0].version,
+  };
+}
+
+// Write a bracket, only if it's still at the given version ("*" = must not exist yet)
+function writeTournamentBracket(nk: nkruntime.Nakama, bracket: TournamentBracket, version: string): void {
+  nk.storageWrite([{
+    collection: TOURNAMENT_COLLECTION,
+    key: bracket.id,
+    userId: SYSTEM_USER_ID,
+    value: bracket as any,
+    version: version,
+    permissionRead: 2, // Public read - brackets are shown to everyone
+    permissionWrite: 0, // Only server can write
+  }]);
+}
+
+// Read-modify-write a bracket; retried when another result was written in between
+// mutate returns false to leave the bracket unchanged, and throws to reject the update
+function updateTournamentBracket(
+  nk: nkruntime.Nakama,
+  tournamentId: string,
+  mutate: (bracket: TournamentBracket) => boolean,
+  logger: nkruntime.Logger
+): TournamentBracket {
+  for (var attempt = 1; ; attempt++) {
+    var existing = readTournamentBracket(nk, tournamentId);
+    if (!existing) {
+      throw new Error("Tournament not found");
+    }
+    if (!mutate(existing.bracket)) {
+      return existing.bracket;
+    }
+
+    try {
+      writeTournamentBracket(nk, existing.bracket, existing.version);
+      return existing.bracket;
+    } catch (err) {
+      if (attempt >= TOURNAMENT_WRITE_ATTEMPTS) {
+        throw err;
+      }
+      logger.info("[TOURNAMENT] Bracket " + tournamentId + " changed while updating, retrying");
+    }
+  }
+}
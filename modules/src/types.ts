@@ -6,27 +6,857 @@
 // ==================== GAME MODE ====================
 
 // Game mode types
-type GameMode = "classic" | "timed";
+// "ultimate" is Ultimate Tic-Tac-Toe and can be played with or without the turn timer
+type GameMode = "classic" | "timed" | "ultimate";
+
+// Every mode, for code that needs to go over all of them (ratings, cleanup)
+const GAME_MODES: GameMode[] = ["classic", "timed", "ultimate"];
+
+// ==================== ULTIMATE TIC-TAC-TOE ====================
+
+// Nine local 3x3 boards arranged in a 3x3 meta board
+// state.board holds all 81 cells, local board b is cells b*9 .. b*9+8
+const ULTIMATE_LOCAL_BOARDS = 9;
+const ULTIMATE_LOCAL_CELLS = 9;
+
+// Ultimate-only state on top of the flat board
+interface UltimateState {
+  metaBoard: (string | null)[];  // Result of each local board: "X", "O", "draw" or null (still open)
+  nextBoard: number | null;      // Local board the current player must play in (null = any open board)
+}
+
+// ==================== BOARD ====================
+
+// Board dimensions and win length (m,n,k game) - classic tic-tac-toe is 3x3 with 3 in a row
+const DEFAULT_BOARD_SIZE = 3;
+const DEFAULT_WIN_LENGTH = 3;
+const MIN_BOARD_SIZE = 3;
+const MAX_BOARD_SIZE = 19;         // Big enough for 15x15 Gomoku-style boards
+
+// ==================== TIME CONTROLS ====================
+
+// How much time each player gets - the classic 30 seconds per move is one preset
+interface TimeControl {
+  id: string;                    // Preset name, e.g. "3+2" (3 minutes + 2 seconds per move)
+  bankMs: number;                // Total time per player for the whole game (0 = no time bank)
+  incrementMs: number;           // Added to the player's bank after each move (Fischer increment)
+  moveMs: number;                // Limit for a single move (0 = no per-move limit)
+}
+
+// Presets clients can pick with { timeControl: "3+2" }
+const TIME_CONTROL_PRESETS: { [id: string]: TimeControl } = {
+  "30s": { id: "30s", bankMs: 0, incrementMs: 0, moveMs: 30000 },       // Original timed mode
+  "1+0": { id: "1+0", bankMs: 60000, incrementMs: 0, moveMs: 0 },
+  "1+1": { id: "1+1", bankMs: 60000, incrementMs: 1000, moveMs: 0 },
+  "3+0": { id: "3+0", bankMs: 180000, incrementMs: 0, moveMs: 0 },
+  "3+2": { id: "3+2", bankMs: 180000, incrementMs: 2000, moveMs: 0 },
+  "5+3": { id: "5+3", bankMs: 300000, incrementMs: 3000, moveMs: 0 },
+};
+
+// Time control used by "timed" mode when the client doesn't pick one
+const DEFAULT_TIME_CONTROL = "30s";
+
+// ==================== RECONNECTION ====================
+
+// What happens to the turn clock (timed mode) while a player is disconnected
+// "pause" - clock stops until the player is back, "run" - clock keeps ticking
+type ReconnectClockPolicy = "pause" | "run";
+
+// Default reconnection window - overridable with RECONNECT_GRACE_SECONDS in runtime env
+const DEFAULT_RECONNECT_GRACE_SECONDS = 30;
+
+// Default clock policy - overridable with RECONNECT_CLOCK_POLICY in runtime env
+const DEFAULT_RECONNECT_CLOCK_POLICY: ReconnectClockPolicy = "pause";
+
+// ==================== MATCH LIFECYCLE ====================
+
+// Why the server closed a match (sent in the final state, GameState.closeReason)
+type MatchCloseReason =
+  | "empty"                      // Everyone left a waiting or finished match
+  | "waiting_timeout"            // Nobody (else) joined in time
+  | "post_game"                  // Game over and no rematch within the post-game window
+  | "challenge_expired"          // Challenge declined or not taken up
+  | "no_show"                    // Tournament pairing where neither player showed up
+  | "server_shutdown";           // Nakama is shutting down
+
+// Waiting matches close after this long - overridable with MATCH_WAITING_TIMEOUT_SECONDS in runtime env
+// (as long as a private join code lives, so a shared code never points at a closed match)
+const DEFAULT_MATCH_WAITING_TIMEOUT_SECONDS = 15 * 60;
+
+// Finished matches stay open this long for rematches - overridable with MATCH_POST_GAME_SECONDS
+const DEFAULT_MATCH_POST_GAME_SECONDS = 60;
+
+// ==================== REMATCH & SERIES ====================
+
+// Allowed series lengths - 0 means open-ended (rematch as often as you like)
+const SERIES_BEST_OF_OPTIONS = [0, 3, 5];
+
+// How long a rematch request waits for an answer before expiring
+const REMATCH_REQUEST_TIMEOUT_MS = 30000; // 30 seconds
+
+// Running score of all games played in this match
+interface SeriesScore {
+  bestOf: number;                // Series length (0 = open-ended)
+  gamesPlayed: number;           // Completed games so far
+  wins: { [userId: string]: number };  // Games won per player
+  draws: number;                 // Games that ended in a draw
+  winner: string | null;         // User ID of series winner once decided, otherwise null
+}
+
+// Rematch request raised after a game completes
+interface RematchRequest {
+  requestedBy: string;           // User ID of the player asking for a rematch
+  expiresAt: number;             // Timestamp when the request lapses if unanswered
+  status: "pending" | "declined" | "expired";
+}
+
+// ==================== PRIVATE MATCHES ====================
+
+// Nakama system user - owner of server-managed storage objects
+const SYSTEM_USER_ID = "00000000-0000-0000-0000-000000000000";
+
+// Storage collection mapping join codes to private match IDs (owned by system user)
+const PRIVATE_MATCH_CODE_COLLECTION = "private_match_codes";
+
+// Join codes avoid look-alike characters (0/O, 1/I) so they're easy to read out loud
+const PRIVATE_MATCH_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const PRIVATE_MATCH_CODE_LENGTH = 6;
+
+// Codes nobody uses lapse on their own after this long
+const PRIVATE_MATCH_CODE_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+// ==================== FRIEND CHALLENGES ====================
+
+// pending -> accepted / declined (a pending challenge past expiresAt counts as expired)
+type ChallengeStatus = "pending" | "accepted" | "declined" | "expired";
+
+// Each challenge is stored twice: in the challenger's sent list and the target's received list
+const CHALLENGES_SENT_COLLECTION = "challenges_sent";
+const CHALLENGES_RECEIVED_COLLECTION = "challenges_received";
+
+// Unanswered challenges lapse (and their match closes) after this long
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// Once accepted, the target has this long to join the match
+const CHALLENGE_JOIN_WINDOW_MS = 60 * 1000;
+
+// Pending challenges a user may have out (and waiting for them) at once
+const CHALLENGE_MAX_PENDING = 5;
+
+// Nakama notification codes: challenge received (to the target), accepted/declined (to the challenger)
+const CHALLENGE_NOTIFICATION_CODE = 102;
+const CHALLENGE_RESPONSE_NOTIFICATION_CODE = 103;
+
+// Nakama friend state for "blocked"
+const FRIEND_STATE_BLOCKED = 3;
+
+// Stored challenge (same value in both collections, key = challenge ID)
+interface Challenge {
+  id: string;
+  challengerId: string;
+  challengerUsername: string;
+  targetId: string;
+  targetUsername: string;
+  matchId: string;               // Reserved match waiting for both players
+  mode: GameMode;
+  timeControl: string | null;
+  status: ChallengeStatus;
+  createdAt: number;
+  expiresAt: number;
+  respondedAt: number | null;
+}
+
+// Challenge details of a match created by challenge_user (GameState.challenge)
+interface ChallengeMatchInfo {
+  challengeId: string;
+  challengerId: string;
+  targetId: string;
+  accepted: boolean;             // The target may only join once they accepted
+  expiresAt: number;             // Match closes if the game hasn't started by then
+}
+
+// ==================== SKILL RATING ====================
+
+// Glicko-2 rating kept per player per game mode
+interface PlayerRating {
+  rating: number;                // Skill estimate (starts at 1500)
+  deviation: number;             // Rating deviation (RD) - how unsure we are about the rating
+  volatility: number;            // Expected fluctuation of the rating
+  gamesPlayed: number;           // Rated games in this mode
+  updatedAt: number;             // Timestamp of the last rated game
+}
+
+// Storage collection holding ratings (key = game mode, owned by the player)
+const RATING_COLLECTION = "user_ratings";
+
+// Attempts at a versioned rating write before giving up (concurrent games for the same player)
+const RATING_WRITE_ATTEMPTS = 5;
+
+// Leaderboard ranking players by rating (score = best rating across modes)
+const RATING_LEADERBOARD_ID = "global_rating";
+
+// Glicko-2 defaults for a brand-new player
+const DEFAULT_RATING = 1500;
+const DEFAULT_RATING_DEVIATION = 350;
+const DEFAULT_RATING_VOLATILITY = 0.06;
+const MIN_RATING_DEVIATION = 30;   // Never get completely certain about a rating
+const GLICKO_TAU = 0.5;            // System constant - limits how fast volatility changes
+
+// Rating window used by find_match - starts narrow and widens the longer a match waits
+const RATING_WINDOW_BASE = 100;            // +/- rating points accepted right away
+const RATING_WINDOW_STEP = 100;            // Extra points added every step
+const RATING_WINDOW_STEP_MS = 10000;       // Widen every 10 seconds
+const RATING_WINDOW_MAX = 1000;            // Beyond this, anybody is fine
+
+// ==================== MATCHMAKER ====================
+
+// Ticket properties the matchmaker hooks understand
+// String properties: mode, bestOf - numeric properties: rating (always set by the server)
+// Tickets whose rating is within this range score higher, but wider pairs are still allowed
+const MATCHMAKER_PREFERRED_RATING_RANGE = RATING_WINDOW_BASE * 2;
+
+// ==================== SPECTATORS ====================
+
+// Maximum number of spectators watching a single match
+const MAX_SPECTATORS = 20;
+
+// Default spectator broadcast delay - overridable with SPECTATOR_DELAY_SECONDS in runtime env
+const DEFAULT_SPECTATOR_DELAY_SECONDS = 0;
+
+// Spectator watching the match (no seat, can't move or talk)
+interface SpectatorInfo {
+  username: string;              // Display name
+  joinedAt: number;              // Timestamp when they started watching
+}
+
+// State update or chat message waiting to be sent to spectators (broadcast delay)
+interface DelayedBroadcast {
+  sendAt: number;                // Timestamp when it may be sent
+  opCode: number;                // STATE_UPDATE, STATE_DELTA or a chat opcode
+  data: string;                  // Message payload
+  snapshot: string | null;       // Full serialized state at this version (for spectator resync), null for chat
+}
+
+// GameState keys that stay on the server and are never broadcast to clients
+const SERVER_ONLY_STATE_KEYS = [
+  "pendingSpectators", "playerPresences", "spectatorPresences", "spectatorQueue", "label",
+  "snapshot", "spectatorSnapshot", "rateLimits",
+  "chatHistory", "chatMuted", "chatBlocklist", "emptySince",
+];
+
+// ==================== VOICE CHAT ====================
+
+// Signaling messages each player may relay per window (ICE candidates come in bursts)
+const VOICE_SIGNAL_RATE_LIMIT = 40;
+const VOICE_SIGNAL_RATE_WINDOW_MS = 10000;
+
+// A player's voice settings - players without an entry haven't opted in
+interface VoiceSettings {
+  enabled: boolean;              // Opted in (false = declined voice)
+  muted: boolean;                // Opted in but muted their microphone
+}
+
+// Message counter for one player and message kind (see isRateLimited)
+interface RateLimitWindow {
+  windowStart: number;
+  count: number;
+}
+
+// ==================== CHAT ====================
+
+// Longest chat message (characters, after trimming)
+const CHAT_MAX_LENGTH = 200;
+
+// Minimum gap between two chat messages / two reactions from the same player
+const CHAT_COOLDOWN_MS = 1500;
+const CHAT_REACTION_COOLDOWN_MS = 500;
+
+// Messages kept per match so reconnecting players and spectators can catch up
+const CHAT_HISTORY_LIMIT = 50;
+
+// Quick reactions - clients map these IDs to emotes
+const CHAT_REACTIONS = ["thumbs_up", "laugh", "wow", "sad", "angry", "clap", "gg", "good_luck"];
+
+// Words masked out of chat messages (extend with the CHAT_BLOCKLIST runtime env, comma-separated)
+const DEFAULT_CHAT_BLOCKLIST = ["fuck", "shit", "bitch", "cunt", "asshole", "bastard", "dickhead", "wanker"];
+
+// One chat message or reaction as delivered to clients
+interface ChatEntry {
+  id: number;                    // Increasing per match
+  userId: string;
+  username: string;
+  kind: "text" | "reaction";
+  text: string | null;           // Filtered message (text only)
+  reaction: string | null;       // One of CHAT_REACTIONS (reaction only)
+  sentAt: number;
+}
+
+// ==================== STATE SYNC ====================
+
+// STATE_DELTA payload - what changed between baseVersion and version
+// Clients apply it only if they're at baseVersion, otherwise they send REQUEST_SYNC
+interface StateDelta {
+  version: number;
+  baseVersion: number;
+  cells: { [position: string]: string | null };  // Board cells that changed, e.g. { "4": "X" }
+  changes: { [key: string]: any };               // Other top-level state fields with their new value
+}
+
+// ==================== STANDINGS ====================
+
+// Standings are kept overall ("all") and per game mode
+type StandingsScope = "all" | GameMode;
+const STANDINGS_SCOPES: StandingsScope[] = ["all", "classic", "timed", "ultimate"];
+
+// Leaderboard orderings - each scope has one Nakama leaderboard per sort
+type StandingsSort = "wins" | "win_rate" | "best_streak";
+const STANDINGS_SORTS: StandingsSort[] = ["wins", "win_rate", "best_streak"];
+
+// Storage collection for each player's standings (key = scope, owned by the player)
+const STANDINGS_COLLECTION = "player_standings";
+
+// Attempts at a versioned standings write before giving up (concurrent games for the same player)
+const STANDINGS_WRITE_ATTEMPTS = 5;
+
+// One-time jobs already done (owned by the system user) - the legacy standings backfill marks itself here
+const SERVER_MIGRATIONS_COLLECTION = "server_migrations";
+const STANDINGS_BACKFILL_KEY = "standings_legacy_backfill";
+
+// Players need this many games before they show up on the win rate board
+const STANDINGS_MIN_GAMES_FOR_WIN_RATE = 10;
+
+// get_leaderboard page sizes (10 was the old fixed top-10)
+const LEADERBOARD_DEFAULT_PAGE_SIZE = 10;
+const LEADERBOARD_MAX_PAGE_SIZE = 100;
+
+// A player's results in one scope - also stored as leaderboard record metadata so reads are one call
+// Maintained incrementally at match completion; get_player_profile derives rates and averages from it
+interface PlayerStandings {
+  wins: number;
+  losses: number;
+  draws: number;
+  winStreak: number;             // Current run of wins (reset by a loss or draw)
+  bestWinStreak: number;
+  timeouts: number;              // Games lost on time
+  forfeitsGiven: number;         // Games lost by leaving / not reconnecting
+  forfeitsReceived: number;      // Games won because the opponent forfeited
+  totalDurationMs: number;       // Sum of game lengths (for the average)
+  gamesAsX: number;
+  winsAsX: number;
+  gamesAsO: number;
+  winsAsO: number;
+  updatedAt: number;
+}
+
+// ==================== SEASONS ====================
+
+// Seasonal board next to the all-time ones: score = wins, subscore = -losses (fewer losses rank higher)
+const SEASON_LEADERBOARD_ID = "season_wins";
+
+// Default season length (cron, UTC) - override with SEASON_RESET_SCHEDULE in the runtime env
+const DEFAULT_SEASON_RESET_SCHEDULE = "0 0 1 * *"; // Midnight on the 1st of every month
+
+// Final standings kept per season (owned by the system user, key = season ID)
+const SEASON_RESULTS_COLLECTION = "season_results";
+const SEASON_ARCHIVE_SIZE = 100;
+
+// Players finishing in the top SEASON_BADGE_RANKS get a badge (one object per season, key = "season_<id>")
+const PLAYER_BADGES_COLLECTION = "player_badges";
+const SEASON_BADGE_RANKS = 10;
+
+// Badge tier by final rank: 1 = champion, 2-3 = podium, 4-10 = top10
+type SeasonBadgeTier = "champion" | "podium" | "top10";
+
+// One row of a season's final standings
+interface SeasonStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  wins: number;
+  losses: number;
+}
+
+// Archived season (SEASON_RESULTS_COLLECTION)
+interface SeasonResults {
+  seasonId: string;              // End date of the season, YYYY-MM-DD (UTC)
+  endedAt: number;
+  standings: SeasonStanding[];   // Top SEASON_ARCHIVE_SIZE players
+}
+
+// Badge awarded for a season finish (PLAYER_BADGES_COLLECTION)
+interface SeasonBadge {
+  seasonId: string;
+  tier: SeasonBadgeTier;
+  rank: number;
+  awardedAt: number;
+}
+
+// ==================== ACHIEVEMENTS ====================
+
+// What an achievement checks - each kind has an evaluator in achievements.ts
+type AchievementKind =
+  | "wins"                       // Total wins (overall) >= threshold
+  | "win_streak"                 // Current win streak >= threshold
+  | "games_played"               // Total games (overall) >= threshold
+  | "clean_win"                  // Won on a line without the opponent ever having two marks next to each other
+  | "time_left";                 // Won a timed game with more than threshold ms left on the winning move
+
+// One achievement - add a row here to add an achievement (no game logic changes needed)
+interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  kind: AchievementKind;
+  threshold: number;
+}
+
+const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: "first_win", name: "First Blood", description: "Win your first game", kind: "wins", threshold: 1 },
+  { id: "streak_5", name: "On Fire", description: "Win 5 games in a row", kind: "win_streak", threshold: 5 },
+  { id: "streak_10", name: "Unstoppable", description: "Win 10 games in a row", kind: "win_streak", threshold: 10 },
+  { id: "streak_25", name: "Legendary", description: "Win 25 games in a row", kind: "win_streak", threshold: 25 },
+  { id: "clean_win", name: "Flawless", description: "Win without your opponent ever placing two in a row", kind: "clean_win", threshold: 0 },
+  { id: "games_100", name: "Veteran", description: "Play 100 games", kind: "games_played", threshold: 100 },
+  { id: "clock_to_spare", name: "Clock to Spare", description: "Win a timed game with more than 20 seconds left", kind: "time_left", threshold: 20000 },
+];
+
+// Unlocked achievements per user: one object (key "unlocked") mapping achievement ID -> unlock timestamp
+const ACHIEVEMENTS_COLLECTION = "player_achievements";
+const ACHIEVEMENTS_KEY = "unlocked";
+
+// Attempts at a versioned achievements write before giving up (concurrent games for the same player)
+const ACHIEVEMENTS_WRITE_ATTEMPTS = 5;
+
+// Nakama notification code for "achievement unlocked" (codes <= 0 are reserved by Nakama)
+const ACHIEVEMENT_NOTIFICATION_CODE = 100;
+
+// ==================== TOURNAMENTS ====================
+
+// Bracket formats: knockout (losers are out) or Swiss (everyone plays every round)
+type TournamentFormat = "single_elimination" | "swiss";
+const TOURNAMENT_FORMATS: TournamentFormat[] = ["single_elimination", "swiss"];
+
+// registration -> running (rounds being played) -> finished
+type TournamentStatus = "registration" | "running" | "finished";
+
+// How a pairing was decided
+type TournamentResultReason =
+  | GameEndReason                // Played out: line, draw (Swiss only), timeout or forfeit
+  | "no_show"                    // Opponent (or both players) never joined the match
+  | "bye"                        // No opponent this round - advances / scores a win
+  | "tiebreak";                  // Elimination game still drawn after the replays - higher seed advances
+
+// Bracket state per tournament (owned by the system user, key = Nakama tournament ID)
+const TOURNAMENT_COLLECTION = "tournament_brackets";
+
+// Registration limits
+const TOURNAMENT_MIN_PLAYERS = 2;
+const TOURNAMENT_MAX_PLAYERS = 64;
+
+// How long the Nakama tournament (registration + records) stays open
+const TOURNAMENT_DURATION_SECONDS = 7 * 24 * 60 * 60;
+
+// Nakama tournament category for our brackets (tournamentList filters on it)
+const TOURNAMENT_CATEGORY = 1;
+
+// A player who hasn't joined their round match after this long forfeits - override with
+// TOURNAMENT_NO_SHOW_SECONDS in the runtime env
+const DEFAULT_TOURNAMENT_NO_SHOW_SECONDS = 120;
+
+// Elimination games can't end drawn: replay (symbols swapped) up to this many games in total
+const TOURNAMENT_MAX_GAMES_PER_PAIRING = 3;
+const TOURNAMENT_REPLAY_DELAY_MS = 5000; // Time to look at the drawn board before the replay starts
+
+// Swiss scoring (a bye counts as a win)
+const TOURNAMENT_POINTS_WIN = 2;
+const TOURNAMENT_POINTS_DRAW = 1;
+
+// Bracket writes use storage versions - retry this often when two results land at once
+const TOURNAMENT_WRITE_ATTEMPTS = 5;
+
+// Nakama notification code for "your tournament match is ready" / "tournament finished"
+const TOURNAMENT_NOTIFICATION_CODE = 101;
+
+// A registered player
+interface TournamentPlayer {
+  userId: string;
+  username: string;
+  rating: number;                // Rating in the tournament's mode at registration (used for seeding)
+  seed: number;                  // 1 = top seed (assigned when the tournament starts)
+  points: number;                // Swiss score (TOURNAMENT_POINTS_*)
+  wins: number;
+  losses: number;
+  draws: number;
+  byes: number;
+  eliminated: boolean;           // Knocked out (single elimination only)
+  opponents: string[];           // User IDs already played (Swiss avoids rematches)
+}
+
+// One game (or bye) in a round
+interface TournamentPairing {
+  matchId: string | null;        // tic_tac_toe match created for the pairing (null for byes)
+  playerA: string;
+  playerB: string | null;        // null = bye for playerA
+  winner: string | null;         // User ID, "draw" (Swiss only) or null (pending, or neither showed up)
+  result: TournamentResultReason | null;  // null while the game is still to be played
+  finishedAt: number | null;
+}
+
+interface TournamentRound {
+  round: number;                 // 1-based
+  startedAt: number;
+  endedAt: number | null;        // Set once every pairing has a result
+  pairings: TournamentPairing[];
+}
+
+// Full bracket (TOURNAMENT_COLLECTION) - returned as-is by get_tournament
+interface TournamentBracket {
+  id: string;                    // Nakama tournament ID
+  title: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  mode: GameMode;                // Match settings every round is played with
+  timeControl: string | null;
+  width: number;
+  height: number;
+  winLength: number;
+  maxPlayers: number;
+  swissRounds: number | null;    // Requested Swiss rounds (null = enough to find a winner)
+  totalRounds: number;           // Known once the tournament starts
+  players: TournamentPlayer[];
+  rounds: TournamentRound[];
+  winner: string | null;         // Champion once finished
+  createdAt: number;
+  startedAt: number | null;
+  endedAt: number | null;
+}
+
+// Tournament details of a match created for a pairing (GameState.tournament)
+interface TournamentMatchInfo {
+  tournamentId: string;
+  format: TournamentFormat;
+  round: number;
+  pairing: number;               // Index into the round's pairings
+  noShowDeadline: number;        // Waiting seats are forfeited at this time
+  replayAt: number | null;       // Drawn elimination game - when the replay starts
+  resultReported: boolean;       // Result has been handed to the bracket
+}
+
+// ==================== MATCH HISTORY ====================
+
+// How a game ended ("admin" = ended by an operator with admin_end_match)
+type GameEndReason = "line" | "draw" | "timeout" | "forfeit" | "admin";
+
+// A single move as it was applied on the server
+interface MoveRecord {
+  userId: string;                // Player who made the move
+  symbol: "X" | "O";             // Symbol placed
+  position: number;              // Board cell
+  timestamp: number;             // When the server applied it
+  remainingMs?: number | null;   // Mover's time left when the move arrived (timed games only)
+}
+
+// Stored record of one completed game (one copy per player, in their own storage)
+interface MatchRecord {
+  id: string;                    // Storage key - sorts newest first
+  matchId: string;               // Nakama match the game was played in
+  gameNumber: number;            // Game number within the match (rematches)
+  mode: GameMode;
+  boardWidth: number;            // Board configuration, so replays can be rendered and checked
+  boardHeight: number;           // (3 x 3 local boards for ultimate)
+  winLength: number;
+  timeControl: string | null;    // Time control ID (null = untimed)
+  vsBot: boolean;                // Played against the server bot
+  players: { userId: string; username: string; symbol: "X" | "O" }[];
+  moves: MoveRecord[];           // Ordered moves for replays
+  winner: string | null;         // User ID of winner or "draw"
+  endReason: GameEndReason;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+}
+
+// Storage collection holding each player's match records (owned by the player)
+const MATCH_HISTORY_COLLECTION = "match_history";
+
+// Page size limits for get_match_history
+const MATCH_HISTORY_DEFAULT_PAGE_SIZE = 20;
+const MATCH_HISTORY_MAX_PAGE_SIZE = 100;
+
+// ==================== ADMIN ====================
+
+// How admin_end_match ends a game: draw, no result at all, or a win for the given player
+type AdminOutcome = "draw" | "void" | "award";
+const ADMIN_OUTCOMES: AdminOutcome[] = ["draw", "void", "award"];
+
+// Most matches an admin command looks at (list, maintenance notice)
+const ADMIN_MATCH_LIST_LIMIT = 100;
+
+// Longest maintenance notice
+const ADMIN_NOTICE_MAX_LENGTH = 500;
+
+// A result being voided is locked for this long - a second admin_void_result waits instead of reverting twice
+const ADMIN_VOID_LOCK_MS = 60 * 1000;
+
+// What admin_void_result can't take back (reported in its response)
+// achievements: unlocks stay; streaks: the legacy user_streaks and the standings streaks;
+// rating: results recorded before rating changes were kept; season: the game's season has ended
+type VoidKeptEffect = "achievements" | "streaks" | "rating" | "season";
+
+// What every counted game did to the leaderboards, so an admin can void it later
+// (owned by the system user, key = "<matchId>:<gameNumber>")
+const MATCH_RESULTS_COLLECTION = "match_results";
+
+interface MatchResultRecord {
+  matchId: string;
+  gameNumber: number;
+  mode: GameMode;
+  players: { userId: string; username: string; symbol: "X" | "O" }[];
+  winner: string;                // User ID or "draw"
+  endReason: GameEndReason;
+  durationMs: number;            // As counted in the standings
+  recordedAt: number;
+  ratingChanges: { [userId: string]: number } | null;  // Rating points each player gained (null if not rated)
+  voidedAt: number | null;
+  voidedBy: string | null;       // Admin user ID ("" = server-to-server call)
+  voidStartedAt: number | null;  // Set while admin_void_result is reverting (see ADMIN_VOID_LOCK_MS)
+  voidSteps: string[];           // Reverts already done - a void that failed partway picks up from here
+}
+
+// ==================== ANTI-ABUSE ====================
+
+// Why a result was held back from the leaderboards
+type AbuseFlag =
+  | "repeated_pairing"           // Same winner beat the same opponent too often in a short time (win trading)
+  | "quick_forfeit"              // Game ended by forfeit before it was really played (leave farming)
+  | "timeout_pattern";           // Same loser keeps running out of time against the same opponent
+
+type AbuseReviewStatus = "pending" | "confirmed" | "dismissed";
+
+// Recent results between two accounts (owned by the system user, key = both user IDs sorted, ":"-joined)
+const ABUSE_PAIRINGS_COLLECTION = "abuse_pairings";
+
+// Attempts at a versioned pairing write before giving up (several games between the same two at once)
+const ABUSE_PAIRING_WRITE_ATTEMPTS = 5;
+
+// Flagged results waiting for an admin (owned by the system user, key = "<matchId>:<gameNumber>")
+const ABUSE_REVIEWS_COLLECTION = "abuse_reviews";
+
+// Only results inside this window count towards the pairing signals
+const ABUSE_PAIR_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// repeated_pairing: this many wins over the same opponent inside the window (this game included)
+const ABUSE_PAIR_WIN_LIMIT = 5;
+
+// timeout_pattern: this many losses on time to the same opponent inside the window (this game included)
+const ABUSE_PAIR_TIMEOUT_LIMIT = 3;
+
+// quick_forfeit: forfeits this soon after the game started, with fewer moves than this
+const ABUSE_QUICK_FORFEIT_MS = 30000;
+const ABUSE_QUICK_FORFEIT_MOVES = 4;
+
+// One result between a pair
+interface AbusePairingResult {
+  at: number;
+  winner: string;                // User ID or "draw"
+  endReason: GameEndReason;
+}
+
+interface AbusePairing {
+  results: AbusePairingResult[]; // Oldest first, only the ones inside ABUSE_PAIR_WINDOW_MS
+}
+
+interface AbuseReview {
+  id: string;                    // "<matchId>:<gameNumber>"
+  matchId: string;
+  gameNumber: number;
+  mode: GameMode;
+  players: { userId: string; username: string }[];
+  winner: string;
+  endReason: GameEndReason;
+  durationMs: number;
+  moves: number;
+  flags: AbuseFlag[];
+  status: AbuseReviewStatus;
+  createdAt: number;
+  resolvedAt: number | null;
+  resolvedBy: string | null;     // Admin user ID ("" = server-to-server call)
+  state: GameState;              // The finished game, so a dismissed flag can still be counted
+}
+
+// Per-user limits on the match RPCs (calls per window); server-to-server calls aren't limited
+// Counters live in RPC_RATE_LIMIT_COLLECTION (owned by the user, key = RPC name)
+const RPC_RATE_LIMIT_COLLECTION = "rpc_rate_limits";
+const RPC_RATE_LIMITS: { [rpcName: string]: { max: number; windowMs: number } } = {
+  find_match: { max: 10, windowMs: 60000 },
+  list_live_matches: { max: 30, windowMs: 60000 },
+  create_private_match: { max: 5, windowMs: 60000 },
+  join_private_match: { max: 10, windowMs: 60000 },
+  challenge_user: { max: 10, windowMs: 60000 },
+  get_leaderboard: { max: 30, windowMs: 60000 },
+  export_user_data: { max: 2, windowMs: 60000 },
+};
+
+// Messages of any opcode one user may send a match per window (above the voice signaling burst)
+const CLIENT_MESSAGE_RATE_LIMIT = 60;
+const CLIENT_MESSAGE_RATE_WINDOW_MS = 10000;
+
+// ==================== USER DATA ====================
+
+// How a location in USER_DATA_LOCATIONS (user_data.ts) is exported and deleted
+type UserDataKind =
+  | "storage"                    // Every object the user owns in a storage collection
+  | "leaderboard"                // The user's record on one or more leaderboards
+  | "account"                    // The Nakama account itself (profile, devices, friends) - deleted last
+  | "retained";                  // Server-owned records that mention the user and are kept on deletion
+
+interface UserDataLocation {
+  id: string;                    // Name in the export and the deletion report
+  kind: UserDataKind;
+  collection?: string;           // storage / retained
+  leaderboardIds?: string[];     // leaderboard
+  reason?: string;               // retained: why it's kept
+}
+
+type UserDataItemStatus = "deleted" | "not_found" | "failed" | "retained";
+
+// What deletion did to one location
+interface UserDataItemResult {
+  id: string;
+  status: UserDataItemStatus;
+  count: number;                 // Objects / records removed
+  error: string | null;
+}
+
+type UserDataAuditAction = "export" | "delete" | "delete_scheduled" | "delete_cancelled";
+
+// Server-side trail of exports and deletions (owned by the system user, kept after the account is gone)
+const USER_DATA_AUDIT_COLLECTION = "user_data_audit";
+
+interface UserDataAuditRecord {
+  id: string;
+  userId: string;
+  action: UserDataAuditAction;
+  requestedAt: number;           // When the user asked (for a scheduled deletion: when it was scheduled)
+  completedAt: number;
+  success: boolean;
+  items: UserDataItemResult[];   // delete only
+}
+
+// Deletions waiting out the cancel window (owned by the system user, key = user ID)
+const USER_DELETIONS_COLLECTION = "user_deletions";
+
+interface PendingUserDeletion {
+  userId: string;
+  requestedAt: number;
+  executeAt: number;
+}
+
+// Default cancel window before an account is deleted (0 = delete right away)
+// Override with USER_DELETION_DELAY_SECONDS in the runtime env
+const DEFAULT_USER_DELETION_DELAY_SECONDS = 0;
+
+// Empty leaderboard whose hourly reset runs the scheduled deletions (see onLeaderboardReset)
+const USER_DELETION_SWEEP_LEADERBOARD_ID = "user_deletion_sweep";
+const USER_DELETION_SWEEP_SCHEDULE = "0 * * * *";
+
+// ==================== BOT OPPONENT ====================
+
+// Bot skill: random moves, win/block/centre heuristic, or perfect minimax play
+type BotDifficulty = "easy" | "medium" | "hard";
+const BOT_DIFFICULTIES: BotDifficulty[] = ["easy", "medium", "hard"];
+const DEFAULT_BOT_DIFFICULTY: BotDifficulty = "medium";
+
+// Seat ID used for the bot - never a real Nakama user
+const BOT_USER_ID = "bot";
+
+// Human-like thinking delay before each bot move
+const BOT_THINK_MIN_MS = 800;
+const BOT_THINK_MAX_MS = 2000;
+
+// Seat a bot in a public match nobody joined after this long - overridable with
+// BOT_FILL_SECONDS (0 disables) and BOT_FILL_DIFFICULTY in runtime env
+const DEFAULT_BOT_FILL_SECONDS = 30;
+
+// Bot games are kept off the global boards - wins against the bot go here instead
+const BOT_LEADERBOARD_ID = "vs_bot_wins";
+
+// Server-controlled player in this match
+interface BotState {
+  userId: string;                // Seat ID (BOT_USER_ID)
+  difficulty: BotDifficulty;
+  moveAt: number | null;         // When the bot will play its pending move (null if not thinking)
+}
 
 // ==================== GAME STATE ====================
 
 // Game state structure - represents the complete state of a tic-tac-toe match
 // This is passed between all match handler functions
 interface GameState {
-  board: (string | null)[];      // 9 cells representing 3x3 grid: null (empty), "X", or "O"
+  board: (string | null)[];      // width * height cells, row by row: null (empty), "X", or "O"
+  boardWidth: number;            // Columns (3 for classic tic-tac-toe)
+  boardHeight: number;           // Rows (3 for classic tic-tac-toe)
+  winLength: number;             // Marks in a row needed to win (k)
   currentTurn: string | null;    // User ID of the player whose turn it is
+  version: number;               // Bumped on every broadcast so clients can spot dropped/reordered updates
   players: {                     // Map of player data indexed by user ID
     [userId: string]: {
       username: string;          // Display name
       symbol: "X" | "O";         // Which symbol this player uses
       connected: boolean;        // Connection status
+      reconnectDeadline: number | null;  // Timestamp when a disconnected player forfeits (null if connected)
     };
   };
   status: "waiting" | "active" | "completed";  // Current game phase
   winner: string | null;         // User ID of winner, "draw", or null if game ongoing
-  mode: GameMode;                // Game mode: "classic" (no timer) or "timed" (30s per turn)
+  mode: GameMode;                // Game mode: "classic" (no timer), "timed" (time control) or "ultimate"
+  timeControl: TimeControl | null;  // Clock settings (always for "timed", optional for "ultimate", null = no clock)
+  clock: { [userId: string]: number };  // Each player's time bank at the start of their current turn
+  remainingMs: { [userId: string]: number };  // Time left per player as of serverTime (refreshed on every broadcast)
+  serverTime: number;            // Server timestamp the remainingMs snapshot was taken at
+  ultimate: UltimateState | null;  // Meta board for Ultimate Tic-Tac-Toe (null in other modes)
   createdAt: number;            // Timestamp when match was created
+  matchId: string;               // Nakama match ID (for match history records)
+  moves: MoveRecord[];           // Moves of the current game, in order
+  gameStartedAt: number | null;  // Timestamp when the current game started
+  endReason: GameEndReason | null;  // How the current game ended (null while in progress)
+  completedAt: number | null;    // Timestamp when the current game ended (starts the post-game window)
+  closeReason: MatchCloseReason | null;  // Set in the final state sent before the match closes
+  waitingTimeoutMs: number;      // How long the match waits for players before closing
+  postGameMs: number;            // How long a finished match stays open for a rematch
   turnStartTimestamp: number | null;  // Timestamp when current turn started (for timeout detection)
+  reconnectGraceMs: number;      // How long a disconnected player has to come back before forfeiting
+  clockPolicy: ReconnectClockPolicy;  // Whether the turn clock pauses while a player is disconnected
+  clockPausedAt: number | null;  // Timestamp when the turn clock was paused (null if running)
+  series: SeriesScore;           // Score across rematches in this match
+  rematch: RematchRequest | null;  // Current/last rematch request (null if none yet)
+  isPrivate: boolean;            // Private matches are only joinable with a code, never via find_match
+  privateCode: string | null;    // Join code for private matches (null for public matches or once expired)
+  reservedFor: string[] | null;  // User IDs allowed to join (matchmaker pairs), null if anyone may join
+  hostRating: number;            // Rating of the player who opened the match (used by find_match)
+  ratingWindow: number;          // +/- rating range the waiting match currently accepts
+  bot: BotState | null;          // Server-controlled opponent (null for human-only games)
+  botFillMs: number;             // Wait before a bot fills an empty seat (0 = never)
+  botFillDifficulty: BotDifficulty;  // Difficulty of bots seated by the automatic fill
+  spectators: { [userId: string]: SpectatorInfo };  // Spectators currently watching (tracked apart from players)
+  spectatorDelayMs: number;      // How far behind the live game spectators see the board
+  voice: { [userId: string]: VoiceSettings };  // Voice opt-in/mute per player (the opponent sees it in the state)
+  tournament: TournamentMatchInfo | null;  // Set when the match was created for a tournament pairing
+  challenge: ChallengeMatchInfo | null;  // Set when the match was created by a friend challenge
+
+  // Server-only (see SERVER_ONLY_STATE_KEYS)
+  pendingSpectators: { [userId: string]: boolean };  // Accepted as spectator in matchJoinAttempt, not joined yet
+  playerPresences: { [userId: string]: nkruntime.Presence };     // Live presences of seated players
+  spectatorPresences: { [userId: string]: nkruntime.Presence };  // Live presences of spectators
+  spectatorQueue: DelayedBroadcast[];  // Delayed state updates and chat for spectators
+  label: string;                 // Last match label pushed to Nakama
+  snapshot: string;              // Last full state broadcast to players (base for the next delta, resync)
+  spectatorSnapshot: string;     // Last full state spectators have been shown (lags behind with a broadcast delay)
+  rateLimits: { [key: string]: RateLimitWindow };  // Per-player message counters, keyed "kind:userId"
+  chatHistory: ChatEntry[];      // Last CHAT_HISTORY_LIMIT chat messages and reactions (sent on join/resync)
+  chatMuted: { [userId: string]: boolean };  // Players who muted their opponent's chat
+  chatBlocklist: string[];       // Words masked out of chat (defaults + CHAT_BLOCKLIST env)
+  emptySince: number | null;     // When the last player/spectator left (null while anyone is connected)
 }
 
 // ==================== MESSAGE OPCODES ====================
@@ -38,7 +868,60 @@ const enum OpCode {
   MAKE_MOVE = 2,       // Client → Server: "I want to make a move at position X"
 
   // WebRTC Voice Chat Signaling
+  // Relayed only to the opponent, with a server-stamped "from" user ID
   WEBRTC_OFFER = 3,    // Client → Client (via Server): "Here's my WebRTC connection offer"
   WEBRTC_ANSWER = 4,   // Client → Client (via Server): "Here's my WebRTC connection answer"
   WEBRTC_ICE_CANDIDATE = 5, // Client → Client (via Server): "Here's a network route candidate"
+
+  // Rematch (only valid once the game is completed)
+  REMATCH_REQUEST = 6, // Client → Server: "I want to play again"
+  REMATCH_ACCEPT = 7,  // Client → Server: "I accept the rematch"
+  REMATCH_DECLINE = 8, // Client → Server: "No rematch" (also cancels your own request)
+
+  // Move rejection (sent only to the player whose move was rejected)
+  MOVE_REJECTED = 9,   // Server → Client: "Your move was not applied, here's why"
+
+  // State sync (STATE_UPDATE is the full snapshot, STATE_DELTA only what changed)
+  REQUEST_SYNC = 10,   // Client → Server: "I missed an update, send me the full state"
+  STATE_DELTA = 11,    // Server → Client: "Cell 4 became X, turn is now Y" (see StateDelta)
+
+  // Voice chat settings (signaling is only relayed once both players opted in)
+  VOICE_OPT_IN = 12,   // Client → Server: "I want voice chat"
+  VOICE_OPT_OUT = 13,  // Client → Server: "No voice chat for me" (also hangs up)
+  VOICE_MUTE = 14,     // Client → Server: "I muted/unmuted my microphone" { muted: boolean }
+
+  // Text chat and quick reactions (server → client payload is a ChatEntry)
+  CHAT_MESSAGE = 15,   // Client → Server: { text }      Server → Client: filtered message
+  CHAT_REACTION = 16,  // Client → Server: { reaction }  Server → Client: the reaction
+  CHAT_MUTE = 17,      // Client → Server: "Hide my opponent's chat" { muted: boolean }
+  CHAT_HISTORY = 18,   // Server → Client: { messages: ChatEntry[] } on join and resync
+
+  // Operator messages
+  SERVER_NOTICE = 19,  // Server → Client: { message, sentAt } maintenance notice from admin_broadcast
+}
+
+// ==================== CLIENT MESSAGES ====================
+
+// Largest payload accepted from a client (WebRTC offers are the biggest messages we relay)
+const MAX_CLIENT_MESSAGE_BYTES = 16384;
+
+// Longest client-supplied move ID we echo back
+const MAX_MOVE_ID_LENGTH = 64;
+
+// Why a move was rejected (machine-readable, clients map these to UI messages)
+type MoveRejectReason =
+  | "malformed_payload"          // Payload isn't { position: integer, moveId?: string }
+  | "game_not_active"            // Game hasn't started or is already over
+  | "not_your_turn"
+  | "out_of_range"               // Position isn't a cell on this board
+  | "cell_occupied"
+  | "wrong_board"                // Ultimate: not in the local board the opponent sent you to
+  | "out_of_time"                // Move arrived after the player's clock ran out (game is lost)
+  | "rate_limited";              // Sender is over CLIENT_MESSAGE_RATE_LIMIT
+
+// MOVE_REJECTED payload
+interface MoveRejection {
+  reason: MoveRejectReason;
+  moveId: string | null;         // Echo of the client's moveId so it can roll back the right optimistic move
+  position: any;                 // What the client sent, for debugging
 }
@@ -0,0 +1,439 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+/// <reference path="standings.ts" />
+/// <reference path="anti_abuse.ts" />
+
+// user_data.ts - Data export and account deletion
+// USER_DATA_LOCATIONS is the one list of places the server keeps data about a user. Export and
+// deletion both walk it, so a feature that stores per-user data only has to add itself here.
+// Every deletion reports a result per location and leaves an audit record in
+// USER_DATA_AUDIT_COLLECTION. With USER_DELETION_DELAY_SECONDS set, deletion is scheduled instead
+// and the user can cancel it until the hourly sweep picks it up.
+
+// Everywhere per-user data lives - add new collections and leaderboards here
+// "account" must stay last: deleting it ends the user's session
+const USER_DATA_LOCATIONS: UserDataLocation[] = [
+  { id: "all_time_leaderboards", kind: "leaderboard", leaderboardIds: ["global_wins", "global_losses"] },
+  { id: "streaks", kind: "storage", collection: "user_streaks" },
+  { id: "ratings", kind: "storage", collection: RATING_COLLECTION },
+  { id: "rating_leaderboard", kind: "leaderboard", leaderboardIds: [RATING_LEADERBOARD_ID] },
+  { id: "bot_leaderboard", kind: "leaderboard", leaderboardIds: [BOT_LEADERBOARD_ID] },
+  { id: "standings", kind: "storage", collection: STANDINGS_COLLECTION },
+  { id: "standings_leaderboards", kind: "leaderboard", leaderboardIds: getAllStandingsLeaderboardIds() },
+  { id: "season_leaderboard", kind: "leaderboard", leaderboardIds: [SEASON_LEADERBOARD_ID] },
+  { id: "badges", kind: "storage", collection: PLAYER_BADGES_COLLECTION },
+  { id: "achievements", kind: "storage", collection: ACHIEVEMENTS_COLLECTION },
+  { id: "challenges_sent", kind: "storage", collection: CHALLENGES_SENT_COLLECTION },
+  { id: "challenges_received", kind: "storage", collection: CHALLENGES_RECEIVED_COLLECTION },
+  { id: "match_history", kind: "storage", collection: MATCH_HISTORY_COLLECTION },
+  { id: "rate_limits", kind: "storage", collection: RPC_RATE_LIMIT_COLLECTION },
+  {
+    id: "tournaments",
+    kind: "retained",
+    collection: TOURNAMENT_COLLECTION,
+    reason: "Brackets and tournament records are shared with the other entrants",
+  },
+  {
+    id: "match_results",
+    kind: "retained",
+    collection: MATCH_RESULTS_COLLECTION,
+    reason: "Server-only ledger of counted games, kept so admins can void results",
+  },
+  {
+    id: "abuse_reviews",
+    kind: "retained",
+    collection: ABUSE_REVIEWS_COLLECTION,
+    reason: "Server-only abuse signals and review queue",
+  },
+  {
+    id: "abuse_pairings",
+    kind: "retained",
+    collection: ABUSE_PAIRINGS_COLLECTION,
+    reason: "Server-only results between two players, shared with the opponent and pruned after the pairing window",
+  },
+  {
+    id: "season_results",
+    kind: "retained",
+    collection: SEASON_RESULTS_COLLECTION,
+    reason: "Archived final standings of past seasons",
+  },
+  {
+    id: "audit",
+    kind: "retained",
+    collection: USER_DATA_AUDIT_COLLECTION,
+    reason: "Record of exports and deletions",
+  },
+  {
+    id: "pending_deletion",
+    kind: "retained",
+    collection: USER_DELETIONS_COLLECTION,
+    reason: "Scheduled deletion request (exported as pendingDeletion), cleared once the deletion has run or is cancelled",
+  },
+  { id: "account", kind: "account" },
+];
+
+// How each kind of location is exported and deleted (delete returns how many objects/records went)
+const USER_DATA_HANDLERS: {
+  [kind: string]: {
+    exportData: (nk: nkruntime.Nakama, userId: string, location: UserDataLocation) => any;
+    deleteData: (nk: nkruntime.Nakama, userId: string, location: UserDataLocation) => number;
+  };
+} = {
+  storage: {
+    exportData: function (nk, userId, location) {
+      var objects = listUserStorage(nk, userId, location.collection as string);
+      var result = [];
+      for (var i = 0; i < objects.length; i++) {
+        var value = objects[i].value;
+        result.push({
+          key: objects[i].key,
+          value: typeof value === "string" ? JSON.parse(value) : value,
+          createTime: objects[i].createTime,
+          updateTime: objects[i].updateTime,
+        });
+      }
+      return result;
+    },
+    deleteData: function (nk, userId, location) {
+      var objects = listUserStorage(nk, userId, location.collection as string);
+      var deletes: nkruntime.StorageDeleteRequest[] = [];
+      for (var i = 0; i < objects.length; i++) {
+        deletes.push({ collection: location.collection as string, key: objects[i].key, userId: userId });
+      }
+      if (deletes.length > 0) {
+        nk.storageDelete(deletes);
+      }
+      return deletes.length;
+    },
+  },
+
+  leaderboard: {
+    exportData: function (nk, userId, location) {
+      var records = listUserLeaderboardRecords(nk, userId, location.leaderboardIds || []);
+      var result = [];
+      for (var i = 0; i < records.length; i++) {
+        result.push({
+          leaderboardId: records[i].leaderboardId,
+          score: records[i].score,
+          subscore: records[i].subscore,
+          rank: records[i].rank,
+          metadata: records[i].metadata,
+          updateTime: records[i].updateTime,
+        });
+      }
+      return result;
+    },
+    deleteData: function (nk, userId, location) {
+      var records = listUserLeaderboardRecords(nk, userId, location.leaderboardIds || []);
+      for (var i = 0; i < records.length; i++) {
+        nk.leaderboardRecordDelete(records[i].leaderboardId, userId);
+      }
+      return records.length;
+    },
+  },
+
+  account: {
+    exportData: function (nk, userId) {
+      var friends = [];
+      var cursor = "";
+      do {
+        var result = nk.friendsList(userId, 1000, undefined, cursor);
+        var page = (result && result.friends) || [];
+        for (var i = 0; i < page.length; i++) {
+          friends.push({
+            userId: page[i].user ? page[i].user.userId : null,
+            username: page[i].user ? page[i].user.username : null,
+            state: page[i].state,
+            updateTime: page[i].updateTime,
+          });
+        }
+        cursor = (result && result.cursor) || "";
+      } while (cursor);
+
+      return { account: nk.accountGetId(userId), friends: friends };
+    },
+    deleteData: function (nk, userId) {
+      // Frees the username for reuse and closes the user's sessions
+      nk.accountDeleteId(userId);
+      return 1;
+    },
+  },
+};
+
+// RPC function to download everything the server holds about the caller
+let rpcExportUserData: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[EXPORT] RPC export_user_data called by user: " + ctx.userId);
+  if (!ctx.userId) {
+    throw new Error("Exporting needs an authenticated user");
+  }
+  checkRpcRateLimit(ctx, nk, "export_user_data", logger);
+
+  var now = Date.now();
+  var data: { [locationId: string]: any } = {};
+  var retained = [];
+  for (var i = 0; i < USER_DATA_LOCATIONS.length; i++) {
+    var location = USER_DATA_LOCATIONS[i];
+    if (location.kind === "retained") {
+      retained.push({ id: location.id, collection: location.collection, reason: location.reason });
+      continue;
+    }
+    data[location.id] = USER_DATA_HANDLERS[location.kind].exportData(nk, ctx.userId, location);
+  }
+
+  writeUserDataAudit(nk, {
+    id: nk.uuidv4(),
+    userId: ctx.userId,
+    action: "export",
+    requestedAt: now,
+    completedAt: Date.now(),
+    success: true,
+    items: [],
+  });
+
+  logger.info("[EXPORT] Exported " + Object.keys(data).length + " data locations for " + ctx.userId);
+  return JSON.stringify({
+    userId: ctx.userId,
+    exportedAt: now,
+    data: data,
+    retained: retained,
+    pendingDeletion: readPendingUserDeletion(nk, ctx.userId),
+  });
+};
+
+// RPC function to delete the caller's data and account
+// Deletes right away, or schedules it when USER_DELETION_DELAY_SECONDS is set (see cancel_user_deletion)
+let rpcDeleteUserData: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[DELETE] RPC delete_user_data called by user: " + ctx.userId);
+  if (!ctx.userId) {
+    throw new Error("Deleting needs an authenticated user");
+  }
+
+  var now = Date.now();
+  var delayMs = getUserDeletionDelayMs(ctx);
+  if (delayMs > 0) {
+    // Asking again doesn't push the date back
+    var pending = readPendingUserDeletion(nk, ctx.userId);
+    if (!pending) {
+      pending = { userId: ctx.userId, requestedAt: now, executeAt: now + delayMs };
+      nk.storageWrite([{
+        collection: USER_DELETIONS_COLLECTION,
+        key: ctx.userId,
+        userId: SYSTEM_USER_ID,
+        value: pending as any,
+        permissionRead: 0, // Server only
+        permissionWrite: 0,
+      }]);
+      writeUserDataAudit(nk, {
+        id: nk.uuidv4(),
+        userId: ctx.userId,
+        action: "delete_scheduled",
+        requestedAt: now,
+        completedAt: Date.now(),
+        success: true,
+        items: [],
+      });
+      logger.info("[DELETE] Deletion of " + ctx.userId + " scheduled for " + new Date(pending.executeAt).toISOString());
+    }
+    return JSON.stringify({ success: true, scheduled: true, executeAt: pending.executeAt });
+  }
+
+  var audit = deleteUserData(nk, ctx.userId, now, logger);
+  return JSON.stringify({ success: audit.success, scheduled: false, items: audit.items, auditId: audit.id });
+};
+
+// RPC function to call off a scheduled deletion
+let rpcCancelUserDeletion: nkruntime.RpcFunction = function (
+  ctx: nkruntime.Context,
+  logger: nkruntime.Logger,
+  nk: nkruntime.Nakama,
+  payload: string
+): string {
+  logger.info("[DELETE] RPC cancel_user_deletion called by user: " + ctx.userId);
+  if (!ctx.userId) {
+    throw new Error("Cancelling needs an authenticated user");
+  }
+
+  var pending = readPendingUserDeletion(nk, ctx.userId);
+  if (!pending) {
+    throw new Error("No deletion is scheduled");
+  }
+
+  nk.storageDelete([{ collection: USER_DELETIONS_COLLECTION, key: ctx.userId, userId: SYSTEM_USER_ID }]);
+  writeUserDataAudit(nk, {
+    id: nk.uuidv4(),
+    userId: ctx.userId,
+    action: "delete_cancelled",
+    requestedAt: pending.requestedAt,
+    completedAt: Date.now(),
+    success: true,
+    items: [],
+  });
+
+  logger.info("[DELETE] Scheduled deletion of " + ctx.userId + " cancelled");
+  return JSON.stringify({ success: true });
+};
+
+// Delete every location in USER_DATA_LOCATIONS for a user and write the audit record
+// The account is only deleted when everything before it went through, so a failed run can be retried
+function deleteUserData(nk: nkruntime.Nakama, userId: string, requestedAt: number, logger: nkruntime.Logger): UserDataAuditRecord {
+  var items: UserDataItemResult[] = [];
+  var failed = false;
+
+  for (var i = 0; i < USER_DATA_LOCATIONS.length; i++) {
+    var location = USER_DATA_LOCATIONS[i];
+    if (location.kind === "retained") {
+      items.push({ id: location.id, status: "retained", count: 0, error: null });
+      continue;
+    }
+    if (location.kind === "account" && failed) {
+      items.push({ id: location.id, status: "failed", count: 0, error: "Skipped, other data could not be deleted" });
+      logger.error("[DELETE] ✗ Account of " + userId + " kept, other data could not be deleted");
+      continue;
+    }
+
+    try {
+      var count = USER_DATA_HANDLERS[location.kind].deleteData(nk, userId, location);
+      items.push({ id: location.id, status: count > 0 ? "deleted" : "not_found", count: count, error: null });
+      logger.info("[DELETE] ✓ " + location.id + ": " + count + " deleted");
+    } catch (err) {
+      failed = true;
+      items.push({ id: location.id, status: "failed", count: 0, error: String(err) });
+      logger.error("[DELETE] ✗ " + location.id + ": " + String(err));
+    }
+  }
+
+  // A scheduled deletion is done either way - a failed one is retried by calling delete_user_data again
+  try {
+    nk.storageDelete([{ collection: USER_DELETIONS_COLLECTION, key: userId, userId: SYSTEM_USER_ID }]);
+  } catch (err) {
+    logger.warn("[DELETE] Failed to clear scheduled deletion of " + userId + ": " + String(err));
+  }
+
+  var audit: UserDataAuditRecord = {
+    id: nk.uuidv4(),
+    userId: userId,
+    action: "delete",
+    requestedAt: requestedAt,
+    completedAt: Date.now(),
+    success: !failed,
+    items: items,
+  };
+  writeUserDataAudit(nk, audit);
+
+  logger.info("[DELETE] Deletion of " + userId + (failed ? " finished with failures" : " completed") + " (audit " + audit.id + ")");
+  return audit;
+}
+
+// Run every scheduled deletion that's due (hourly, from onLeaderboardReset)
+function runDueUserDeletions(nk: nkruntime.Nakama, logger: nkruntime.Logger): void {
+  var now = Date.now();
+  var due: PendingUserDeletion[] = [];
+  var cursor = "";
+
+  do {
+    var result = nk.storageList(SYSTEM_USER_ID, USER_DELETIONS_COLLECTION, 100, cursor);
+    var objects = (result && result.objects) || [];
+    for (var i = 0; i < objects.length; i++) {
+      var value = objects[i].value;
+      var pending = (typeof value === "string" ? JSON.parse(value) : value) as PendingUserDeletion;
+      if (pending.executeAt <= now) {
+        due.push(pending);
+      }
+    }
+    cursor = (result && result.cursor) || "";
+  } while (cursor);
+
+  for (var d = 0; d < due.length; d++) {
+    try {
+      deleteUserData(nk, due[d].userId, due[d].requestedAt, logger);
+    } catch (err) {
+      logger.error("[DELETE] Scheduled deletion of " + due[d].userId + " failed: " + String(err));
+    }
+  }
+  logger.info("[DELETE] Deletion sweep ran " + due.length + " scheduled deletions");
+}
+
+// Create the board whose hourly reset drives runDueUserDeletions (called from InitModule)
+function createUserDeletionSweep(nk: nkruntime.Nakama, logger: nkruntime.Logger): void {
+  try {
+    nk.leaderboardCreate(
+      USER_DELETION_SWEEP_LEADERBOARD_ID, // Leaderboard ID
+      true,               // Authoritative - nobody writes to it
+      nkruntime.SortOrder.DESCENDING,   // Sort order (unused)
+      nkruntime.Operator.SET,           // Operator (unused)
+      USER_DELETION_SWEEP_SCHEDULE,     // Reset schedule (cron) - every reset runs the sweep
+      {}                  // No metadata
+    );
+    logger.info("Leaderboard '" + USER_DELETION_SWEEP_LEADERBOARD_ID + "' created with reset schedule '" + USER_DELETION_SWEEP_SCHEDULE + "'");
+  } catch (error) {
+    logger.info("Leaderboard '" + USER_DELETION_SWEEP_LEADERBOARD_ID + "' already exists (this is normal on restart)");
+  }
+}
+
+// Cancel window from the runtime env (0 = delete right away)
+function getUserDeletionDelayMs(ctx: nkruntime.Context): number {
+  var env = ctx.env || {};
+  var seconds = Number(env["USER_DELETION_DELAY_SECONDS"]);
+  if (isNaN(seconds) || seconds < 0 || env["USER_DELETION_DELAY_SECONDS"] === undefined) {
+    seconds = DEFAULT_USER_DELETION_DELAY_SECONDS;
+  }
+  return seconds * 1000;
+}
+
+function readPendingUserDeletion(nk: nkruntime.Nakama, userId: string): PendingUserDeletion | null {
+  var objects = nk.storageRead([{ collection: USER_DELETIONS_COLLECTION, key: userId, userId: SYSTEM_USER_ID }]);
+  if (!objects || objects.length === 0) {
+    return null;
+  }
+  var value = objects[0].value;
+  return (typeof value === "string" ? JSON.parse(value) : value) as PendingUserDeletion;
+}
+
+function writeUserDataAudit(nk: nkruntime.Nakama, audit: UserDataAuditRecord): void {
+  nk.storageWrite([{
+    collection: USER_DATA_AUDIT_COLLECTION,
+    key: audit.id,
+    userId: SYSTEM_USER_ID,
+    value: audit as any,
+    permissionRead: 0, // Server only
+    permissionWrite: 0,
+  }]);
+}
+
+// Every object a user owns in one collection
+function listUserStorage(nk: nkruntime.Nakama, userId: string, collection: string): nkruntime.StorageObject[] {
+  var objects: nkruntime.StorageObject[] = [];
+  var cursor = "";
+  do {
+    var result = nk.storageList(userId, collection, 100, cursor);
+    var page = (result && result.objects) || [];
+    for (var i = 0; i < page.length; i++) {
+      objects.push(page[i]);
+    }
+    cursor = (result && result.cursor) || "";
+  } while (cursor);
+  return objects;
+}
+
+// A user's records on the given leaderboards (current period only)
+function listUserLeaderboardRecords(nk: nkruntime.Nakama, userId: string, leaderboardIds: string[]): nkruntime.LeaderboardRecord[] {
+  var records: nkruntime.LeaderboardRecord[] = [];
+  for (var i = 0; i < leaderboardIds.length; i++) {
+    var result = nk.leaderboardRecordsList(leaderboardIds[i], [userId], 1, "", 0);
+    var owned = (result && result.ownerRecords) || [];
+    for (var j = 0; j < owned.length; j++) {
+      records.push(owned[j]);
+    }
+  }
+  return records;
+}
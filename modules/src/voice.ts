@@ -0,0 +1,103 @@
+/// <reference path="../node_modules/nakama-runtime/index.d.ts" />
+/// <reference path="types.ts" />
+
+// voice.ts - WebRTC voice chat signaling relay and voice settings
+// The server never touches audio: it only passes offers, answers and ICE candidates between
+// the two players, and only once both of them opted in to voice.
+
+// Relay a signaling message to the sender's opponent (never back to the sender or to spectators)
+function relayVoiceSignal(
+  state: GameState,
+  opCode: number,
+  sender: nkruntime.Presence,
+  data: { [field: string]: any },
+  dispatcher: nkruntime.MatchDispatcher,
+  logger: nkruntime.Logger
+): void {
+  var senderId = sender.userId;
+
+  // Only seated players take part in voice chat
+  if (!state.players[senderId]) {
+    logger.warn("[VOICE] Refusing signaling from non-player " + sender.username);
+    return;
+  }
+
+  // Offers and answers must say what they are
+  if ((opCode === OpCode.WEBRTC_OFFER && data.type !== "offer") ||
+    (opCode === OpCode.WEBRTC_ANSWER && data.type !== "answer")) {
+    logger.warn("[VOICE] Dropping opCode " + opCode + " from " + sender.username + ": wrong description type " + data.type);
+    return;
+  }
+
+  if (isRateLimited(state, "voice", senderId, VOICE_SIGNAL_RATE_LIMIT, VOICE_SIGNAL_RATE_WINDOW_MS)) {
+    logger.warn("[VOICE] Rate limit hit by " + sender.username + ", dropping opCode " + opCode);
+    return;
+  }
+
+  var targetId = getOpponentId(state, senderId);
+  var target = targetId ? state.playerPresences[targetId] : undefined;
+  if (!targetId || !target) {
+    logger.info("[VOICE] No connected opponent for " + sender.username + ", dropping opCode " + opCode);
+    return;
+  }
+
+  // Both players must have opted in
+  if (!isVoiceEnabled(state, senderId) || !isVoiceEnabled(state, targetId)) {
+    logger.info("[VOICE] Voice not enabled by both players, dropping opCode " + opCode + " from " + sender.username);
+    return;
+  }
+
+  // Re-serialize the validated fields and stamp who it's from - clients can't spoof the sender
+  var relayed: { [field: string]: any } = {};
+  for (var key in data) {
+    relayed[key] = data[key];
+  }
+  relayed.from = senderId;
+
+  dispatcher.broadcastMessage(opCode, JSON.stringify(relayed), [target]);
+}
+
+// Has this player opted in to voice chat?
+function isVoiceEnabled(state: GameState, userId: string): boolean {
+  var settings = state.voice[userId];
+  return !!settings && settings.enabled;
+}
+
+// Handle VOICE_OPT_IN / VOICE_OPT_OUT / VOICE_MUTE from a player
+// The opponent learns about it from state.voice in the next state update
+function handleVoiceSettings(
+  state: GameState,
+  opCode: number,
+  userId: string,
+  data: { [field: string]: any },
+  dispatcher: nkruntime.MatchDispatcher,
+  logger: nkruntime.Logger
+): GameState {
+  var settings = state.voice[userId] || { enabled: false, muted: false };
+
+  switch (opCode) {
+    case OpCode.VOICE_OPT_IN:
+      settings.enabled = true;
+      break;
+
+    case OpCode.VOICE_OPT_OUT:
+      // Declining also clears mute - there's nothing left to mute
+      settings.enabled = false;
+      settings.muted = false;
+      break;
+
+    case OpCode.VOICE_MUTE:
+      if (!settings.enabled) {
+        logger.warn("[VOICE] " + userId + " tried to mute without opting in to voice");
+        return state;
+      }
+      settings.muted = data.muted === true;
+      break;
+  }
+
+  state.voice[userId] = settings;
+  logger.info("[VOICE] " + userId + " voice " + (settings.enabled ? "on" : "off") + (settings.muted ? " (muted)" : ""));
+
+  broadcastState(dispatcher, state);
+  return state;
+}